@@ -1,12 +1,48 @@
-export type AIProvider = 'anthropic' | 'openrouter' | 'perplexity' | 'openai';
+export type AIProvider =
+  | 'anthropic'
+  | 'openrouter'
+  | 'perplexity'
+  | 'openai'
+  | 'gemini'
+  | 'openai-compatible'
+  | 'azure-openai'
+  | 'mock';
+export type MockMode = 'echo' | 'script' | 'replay' | 'record';
+export type SessionStoreType = 'memory' | 'file';
+export type UsageStoreType = 'memory' | 'file';
+
+/**
+ * A provider and the model to use with it
+ */
+export interface ProviderTarget {
+  provider: AIProvider;
+  model: string;
+}
+
+/**
+ * Usage limits per UTC day and month; unset or 0 means unlimited
+ */
+export interface QuotaLimits {
+  dailyTokens?: number;
+  dailyRequests?: number;
+  monthlyTokens?: number;
+  monthlyRequests?: number;
+}
 
 export interface Config {
   port: number;
   nodeEnv: string;
   aiProvider: AIProvider;
+  // Providers tried in order when one fails with a retryable error (first is aiProvider)
+  aiProviderChain: ProviderTarget[];
+  failoverCooldownMs: number;
+  // Extra provider/model pairs users may pick per request; `*` is a wildcard in model names
+  modelAllowlist: ProviderTarget[];
   // Anthropic configuration
   anthropicApiKey: string;
   anthropicModel: string;
+  // Cache breakpoints on the tools, system prompt and conversation
+  anthropicPromptCaching: boolean;
   // Perplexity configuration
   perplexityApiKey: string;
   perplexityModel: string;
@@ -19,39 +55,359 @@ export interface Config {
   // OpenAI configuration
   openaiApiKey: string;
   openaiModel: string;
+  // Azure OpenAI configuration; the model of this provider is a deployment name
+  azureOpenaiApiKey: string;
+  azureOpenaiEndpoint: string;
+  azureOpenaiDeployment: string;
+  azureOpenaiApiVersion: string;
+  // Gemini configuration
+  geminiApiKey: string;
+  geminiModel: string;
+  geminiApiBaseUrl: string;
+  // Generic OpenAI-compatible server (Ollama, vLLM, LM Studio, ...)
+  openaiCompatibleBaseUrl: string;
+  openaiCompatibleApiKey: string;
+  openaiCompatibleAuthHeader: string;
+  openaiCompatibleModel: string;
+  openaiCompatibleTimeoutMs: number;
+  // Offline mock provider: echo, a scripted tool sequence, or a recorded fixture
+  mockMode: MockMode;
+  mockModel: string;
+  mockScriptFile?: string;
+  mockFixtureFile?: string;
+  // Real provider whose calls are written to mockFixtureFile in record mode
+  mockRecordTarget?: ProviderTarget;
   // MCP configuration
   mcpServerUrl: string;
   allowedOrigins: string[];
   sessionTimeoutMs: number;
+  // Session storage configuration
+  sessionStore: SessionStoreType;
+  sessionStoreDir: string;
+  // Usage accounting configuration
+  usageStore: UsageStoreType;
+  usageStoreDir: string;
+  // JSON file with per-model prices that override the built-in ones
+  modelPricesFile?: string;
+  // Context window management
+  contextMaxTokens?: number;
+  contextKeepRecentTurns: number;
+  contextToolResultMaxTokens: number;
   // Salesforce Auth configuration
   requireSalesforceAuth: boolean;
   salesforceTokenValidationTTL: number;
   userRateLimitPerMinute: number;
+  // Usage quotas for every user and every org, with per-user/org overrides from a JSON file
+  userQuota: QuotaLimits;
+  organizationQuota: QuotaLimits;
+  quotaOverridesFile?: string;
+  // Retry of transient LLM and MCP failures
+  retryMaxRetries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  // Time budget per chat request after which failed calls are no longer retried
+  retryMaxTotalMs: number;
+  // Tool calls of one model step executed at the same time
+  toolConcurrency: number;
+  // Tool results over this many characters are truncated and paged; per-tool limits by name pattern
+  toolResultMaxChars: number;
+  toolResultLimits: Record<string, number>;
+  // Records shown when a record list is truncated, and per page
+  toolResultPreviewRows: number;
+  // Tools sent per request, ranked by relevance (0 sends all), plus tools always sent
+  toolSelectionTopK: number;
+  alwaysOnTools: string[];
+  // Tool rounds per message before the loop stops and summarizes, and the most a request may ask for
+  maxIterations: number;
+  maxIterationsLimit: number;
+  // Directory of layered system prompt templates
+  systemPromptDir: string;
+  // Key for the X-Admin-Key header of /api/admin; the admin API is disabled without it
+  adminApiKey?: string;
+  // Tool approval configuration
+  requireToolApproval: boolean;
+  mutatingTools: string[];
+}
+
+/**
+ * MCP tools that modify data, metadata or run code in the org.
+ * Entries may use `*` as a wildcard.
+ */
+const DEFAULT_MUTATING_TOOLS = [
+  'salesforce_dml_records',
+  'salesforce_manage_object',
+  'salesforce_manage_field',
+  'salesforce_manage_field_permissions',
+  'salesforce_write_apex',
+  'salesforce_write_apex_trigger',
+  'salesforce_execute_anonymous',
+  'salesforce_manage_debug_logs',
+];
+
+/**
+ * Tools most requests start with, sent even when tool selection ranks them low.
+ * Entries may use `*` as a wildcard.
+ */
+const DEFAULT_ALWAYS_ON_TOOLS = [
+  'salesforce_search_objects',
+  'salesforce_describe_object',
+  'salesforce_query_records',
+];
+
+const AI_PROVIDERS: AIProvider[] = [
+  'anthropic',
+  'openrouter',
+  'perplexity',
+  'openai',
+  'gemini',
+  'openai-compatible',
+  'azure-openai',
+  'mock',
+];
+
+const MOCK_MODES: MockMode[] = ['echo', 'script', 'replay', 'record'];
+
+/**
+ * Variable each provider cannot run without; local servers usually need no API key
+ */
+const REQUIRED_PROVIDER_VARIABLES: Record<AIProvider, string | undefined> = {
+  anthropic: 'ANTHROPIC_API_KEY',
+  openrouter: 'OPENROUTER_API_KEY',
+  perplexity: 'PERPLEXITY_API_KEY',
+  openai: 'OPENAI_API_KEY',
+  gemini: 'GEMINI_API_KEY',
+  'openai-compatible': 'OPENAI_COMPATIBLE_BASE_URL',
+  'azure-openai': 'AZURE_OPENAI_API_KEY',
+  mock: undefined,
+};
+
+/**
+ * Model used for a provider when none is given explicitly
+ */
+function defaultModel(provider: AIProvider): string {
+  switch (provider) {
+    case 'anthropic':
+      return process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-20241022';
+    case 'openrouter':
+      return process.env.OPENROUTER_MODEL || 'nousresearch/deepseek-r1t2-chimera:free';
+    case 'perplexity':
+      return process.env.PERPLEXITY_MODEL || 'perplexity-1.0';
+    case 'openai':
+      return process.env.OPENAI_MODEL || 'gpt-5-mini';
+    case 'gemini':
+      return process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+    case 'openai-compatible':
+      return process.env.OPENAI_COMPATIBLE_MODEL || 'llama3.1';
+    case 'azure-openai':
+      // Deployment names are chosen per resource, so there is no sensible default
+      return process.env.AZURE_OPENAI_DEPLOYMENT || '';
+    case 'mock':
+      return process.env.MOCK_MODEL || 'mock';
+  }
+}
+
+/**
+ * Parse a comma-separated list of `provider` or `provider:model` entries
+ * Only the first colon separates the model, so OpenRouter IDs such as
+ * `meta-llama/llama-4-maverick:free` work. A missing model means the provider's default.
+ */
+function parseProviderTargets(value: string, variableName: string): ProviderTarget[] {
+  const entries = value.split(',').map(entry => entry.trim()).filter(Boolean);
+  if (entries.length === 0) {
+    throw new Error(`${variableName} must list at least one provider`);
+  }
+
+  return entries.map(entry => {
+    const separator = entry.indexOf(':');
+    const provider = (separator === -1 ? entry : entry.slice(0, separator)).trim() as AIProvider;
+    const model = separator === -1 ? '' : entry.slice(separator + 1).trim();
+
+    if (!AI_PROVIDERS.includes(provider)) {
+      throw new Error(`${variableName} contains unknown provider "${provider}"`);
+    }
+
+    return { provider, model: model || defaultModel(provider) };
+  });
+}
+
+/**
+ * Check whether a string names a supported provider
+ */
+export function isAIProvider(value: string): value is AIProvider {
+  return AI_PROVIDERS.includes(value as AIProvider);
+}
+
+/**
+ * Default model configured for a provider
+ */
+export function getProviderModel(config: Config, provider: AIProvider): string {
+  switch (provider) {
+    case 'anthropic':
+      return config.anthropicModel;
+    case 'openrouter':
+      return config.openRouterModel;
+    case 'perplexity':
+      return config.perplexityModel;
+    case 'openai':
+      return config.openaiModel;
+    case 'gemini':
+      return config.geminiModel;
+    case 'openai-compatible':
+      return config.openaiCompatibleModel;
+    case 'azure-openai':
+      return config.azureOpenaiDeployment;
+    case 'mock':
+      return config.mockModel;
+  }
+}
+
+/**
+ * Azure needs the resource endpoint and a deployment for every chain or allowlist entry
+ */
+function validateAzureOpenAI(targets: ProviderTarget[]): void {
+  const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
+  if (!endpoint) {
+    throw new Error('AZURE_OPENAI_ENDPOINT is required when using the azure-openai provider');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch (e) {
+    throw new Error(`AZURE_OPENAI_ENDPOINT must be a URL such as https://my-resource.openai.azure.com (got "${endpoint}")`);
+  }
+  if (url.protocol !== 'https:') {
+    throw new Error('AZURE_OPENAI_ENDPOINT must use https');
+  }
+
+  if (targets.some(target => !target.model)) {
+    throw new Error(
+      'AZURE_OPENAI_DEPLOYMENT is required when using the azure-openai provider ' +
+      'without a deployment (e.g. azure-openai:my-deployment)'
+    );
+  }
+}
+
+/**
+ * The mock provider needs the file its mode reads, and a real provider to record from
+ */
+function parseMockRecordTarget(mockMode: MockMode): ProviderTarget | undefined {
+  if (mockMode === 'script' && !process.env.MOCK_SCRIPT_FILE) {
+    throw new Error('MOCK_SCRIPT_FILE is required when MOCK_MODE is "script"');
+  }
+  if ((mockMode === 'replay' || mockMode === 'record') && !process.env.MOCK_FIXTURE_FILE) {
+    throw new Error(`MOCK_FIXTURE_FILE is required when MOCK_MODE is "${mockMode}"`);
+  }
+  if (mockMode !== 'record') {
+    return undefined;
+  }
+
+  const targets = parseProviderTargets(process.env.MOCK_RECORD_PROVIDER || '', 'MOCK_RECORD_PROVIDER');
+  if (targets.length !== 1 || targets[0].provider === 'mock') {
+    throw new Error('MOCK_RECORD_PROVIDER must name one real provider, e.g. openrouter or anthropic:claude-sonnet-4-5');
+  }
+  return targets[0];
+}
+
+/**
+ * Parse TOOL_RESULT_LIMITS, a comma-separated list of `tool=characters` entries
+ */
+function parseToolResultLimits(value: string | undefined): Record<string, number> {
+  const limits: Record<string, number> = {};
+  for (const entry of (value || '').split(',').map(e => e.trim()).filter(Boolean)) {
+    const separator = entry.lastIndexOf('=');
+    const limit = Number(entry.slice(separator + 1));
+    if (separator <= 0 || !Number.isInteger(limit) || limit < 0) {
+      throw new Error(`TOOL_RESULT_LIMITS entry "${entry}" must be tool=characters (0 means unlimited)`);
+    }
+    limits[entry.slice(0, separator).trim()] = limit;
+  }
+  return limits;
+}
+
+/**
+ * Read QUOTA_<scope>_DAILY_TOKENS, _DAILY_REQUESTS, _MONTHLY_TOKENS and _MONTHLY_REQUESTS
+ */
+function parseQuotaLimits(scope: 'USER' | 'ORG'): QuotaLimits {
+  const read = (name: string): number | undefined => {
+    const variableName = `QUOTA_${scope}_${name}`;
+    const value = process.env[variableName];
+    if (!value) {
+      return undefined;
+    }
+
+    const limit = Number(value);
+    if (!Number.isInteger(limit) || limit < 0) {
+      throw new Error(`${variableName} must be a non-negative integer (0 means unlimited)`);
+    }
+    return limit || undefined;
+  };
+
+  return {
+    dailyTokens: read('DAILY_TOKENS'),
+    dailyRequests: read('DAILY_REQUESTS'),
+    monthlyTokens: read('MONTHLY_TOKENS'),
+    monthlyRequests: read('MONTHLY_REQUESTS'),
+  };
 }
 
 export function loadConfig(): Config {
   const aiProvider = (process.env.AI_PROVIDER || 'openrouter') as AIProvider;
   
   // Validate AI provider selection
-  if (!['anthropic', 'openrouter', 'perplexity', 'openai'].includes(aiProvider)) {
-    throw new Error('AI_PROVIDER must be one of "anthropic", "openrouter", "perplexity", or "openai"');
+  if (!AI_PROVIDERS.includes(aiProvider)) {
+    throw new Error('AI_PROVIDER must be one of "anthropic", "openrouter", "perplexity", "openai", "gemini", "openai-compatible", "azure-openai", or "mock"');
   }
 
-  // Check required API key based on provider
-  if (aiProvider === 'anthropic' && !process.env.ANTHROPIC_API_KEY) {
-    throw new Error('ANTHROPIC_API_KEY is required when AI_PROVIDER=anthropic');
+  // Without a chain, AI_PROVIDER is used alone
+  const aiProviderChain = process.env.AI_PROVIDER_CHAIN?.trim()
+    ? parseProviderTargets(process.env.AI_PROVIDER_CHAIN, 'AI_PROVIDER_CHAIN')
+    : [{ provider: aiProvider, model: defaultModel(aiProvider) }];
+
+  const modelAllowlist = process.env.AI_MODEL_ALLOWLIST?.trim()
+    ? parseProviderTargets(process.env.AI_MODEL_ALLOWLIST, 'AI_MODEL_ALLOWLIST')
+    : [];
+
+  const mockMode = (process.env.MOCK_MODE || 'echo') as MockMode;
+  if (!MOCK_MODES.includes(mockMode)) {
+    throw new Error('MOCK_MODE must be one of "echo", "script", "replay", or "record"');
   }
-  
-  if (aiProvider === 'openrouter' && !process.env.OPENROUTER_API_KEY) {
-    throw new Error('OPENROUTER_API_KEY is required when AI_PROVIDER=openrouter');
+
+  const targets = [...aiProviderChain, ...modelAllowlist];
+  const mockRecordTarget = targets.some(target => target.provider === 'mock')
+    ? parseMockRecordTarget(mockMode)
+    : undefined;
+  if (mockRecordTarget) {
+    targets.push(mockRecordTarget);
   }
-  
-  if (aiProvider === 'perplexity' && !process.env.PERPLEXITY_API_KEY) {
-    throw new Error('PERPLEXITY_API_KEY is required when AI_PROVIDER=perplexity');
+
+  // Check the required API key (or base URL) for every provider in use
+  for (const provider of new Set(targets.map(target => target.provider))) {
+    const requiredVariable = REQUIRED_PROVIDER_VARIABLES[provider];
+    if (requiredVariable && !process.env[requiredVariable]) {
+      throw new Error(`${requiredVariable} is required when using the ${provider} provider`);
+    }
+  }
+
+  const azureTargets = targets.filter(target => target.provider === 'azure-openai');
+  if (azureTargets.length > 0) {
+    validateAzureOpenAI(azureTargets);
+  }
+
+  const sessionStore = (process.env.SESSION_STORE || 'memory') as SessionStoreType;
+  if (!['memory', 'file'].includes(sessionStore)) {
+    throw new Error('SESSION_STORE must be one of "memory" or "file"');
+  }
+
+  const usageStore = (process.env.USAGE_STORE || 'memory') as UsageStoreType;
+  if (!['memory', 'file'].includes(usageStore)) {
+    throw new Error('USAGE_STORE must be one of "memory" or "file"');
   }
 
-  if (aiProvider === 'openai' && !process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY is required when AI_PROVIDER=openai');
+  const maxIterations = parseInt(process.env.AGENT_MAX_ITERATIONS || '10', 10);
+  const maxIterationsLimit = parseInt(process.env.AGENT_MAX_ITERATIONS_LIMIT || String(Math.max(maxIterations, 25)), 10);
+  if (!(maxIterations >= 1) || !(maxIterationsLimit >= maxIterations)) {
+    throw new Error('AGENT_MAX_ITERATIONS must be at least 1 and AGENT_MAX_ITERATIONS_LIMIT at least AGENT_MAX_ITERATIONS');
   }
 
   // Validate MCP server URL
@@ -62,29 +418,95 @@ export function loadConfig(): Config {
   return {
     port: parseInt(process.env.PORT || '3001', 10),
     nodeEnv: process.env.NODE_ENV || 'development',
-    aiProvider,
+    aiProvider: aiProviderChain[0].provider,
+    aiProviderChain,
+    failoverCooldownMs: parseInt(process.env.AI_FAILOVER_COOLDOWN_MS || '60000', 10),
+    modelAllowlist,
     // Anthropic config
     anthropicApiKey: process.env.ANTHROPIC_API_KEY || '',
-    anthropicModel: process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-20241022',
+    anthropicModel: defaultModel('anthropic'),
+    anthropicPromptCaching: process.env.ANTHROPIC_PROMPT_CACHING === 'true',
   // Perplexity config
   perplexityApiKey: process.env.PERPLEXITY_API_KEY || '',
-  perplexityModel: process.env.PERPLEXITY_MODEL || 'perplexity-1.0',
+  perplexityModel: defaultModel('perplexity'),
       perplexityApiBaseUrl: process.env.PERPLEXITY_API_BASE_URL || 'https://api.perplexity.ai',
   // OpenRouter config
   openRouterApiKey: process.env.OPENROUTER_API_KEY || '',
-  openRouterModel: process.env.OPENROUTER_MODEL || 'nousresearch/deepseek-r1t2-chimera:free',
+  openRouterModel: defaultModel('openrouter'),
   openRouterAppName: process.env.OPENROUTER_APP_NAME || 'Salesforce-AI-Bridge',
   openRouterSiteUrl: process.env.OPENROUTER_SITE_URL || 'http://localhost:3001',
   // OpenAI config
   openaiApiKey: process.env.OPENAI_API_KEY || '',
-  openaiModel: process.env.OPENAI_MODEL || 'gpt-5-mini',
+  openaiModel: defaultModel('openai'),
+  // Azure OpenAI config
+  azureOpenaiApiKey: process.env.AZURE_OPENAI_API_KEY || '',
+  // Only the resource root is used; paths such as /openai/... are built per request
+  azureOpenaiEndpoint: (process.env.AZURE_OPENAI_ENDPOINT || '').replace(/\/+$/, '').replace(/\/openai(\/v1)?$/, ''),
+  azureOpenaiDeployment: defaultModel('azure-openai'),
+  azureOpenaiApiVersion: process.env.AZURE_OPENAI_API_VERSION || '2025-04-01-preview',
+  // Gemini config
+  geminiApiKey: process.env.GEMINI_API_KEY || '',
+  geminiModel: defaultModel('gemini'),
+  geminiApiBaseUrl: process.env.GEMINI_API_BASE_URL || 'https://generativelanguage.googleapis.com/v1beta',
+  // OpenAI-compatible config
+  openaiCompatibleBaseUrl: (process.env.OPENAI_COMPATIBLE_BASE_URL || '').replace(/\/+$/, ''),
+  openaiCompatibleApiKey: process.env.OPENAI_COMPATIBLE_API_KEY || '',
+  openaiCompatibleAuthHeader: process.env.OPENAI_COMPATIBLE_AUTH_HEADER || 'Authorization',
+  openaiCompatibleModel: defaultModel('openai-compatible'),
+  openaiCompatibleTimeoutMs: parseInt(process.env.OPENAI_COMPATIBLE_TIMEOUT_MS || '120000', 10),
+  // Mock provider config
+  mockMode,
+  mockModel: defaultModel('mock'),
+  mockScriptFile: process.env.MOCK_SCRIPT_FILE || undefined,
+  mockFixtureFile: process.env.MOCK_FIXTURE_FILE || undefined,
+  mockRecordTarget,
     // MCP config
     mcpServerUrl: process.env.MCP_SERVER_URL,
     allowedOrigins: process.env.ALLOWED_ORIGINS?.split(',') || ['*'],
     sessionTimeoutMs: parseInt(process.env.SESSION_TIMEOUT_MS || '1800000', 10),
+    // Session storage config
+    sessionStore,
+    sessionStoreDir: process.env.SESSION_STORE_DIR || './data/sessions',
+    // Usage accounting config
+    usageStore,
+    usageStoreDir: process.env.USAGE_STORE_DIR || './data/usage',
+    modelPricesFile: process.env.MODEL_PRICES_FILE || undefined,
+    // Context window config
+    contextMaxTokens: process.env.CONTEXT_MAX_TOKENS ? parseInt(process.env.CONTEXT_MAX_TOKENS, 10) : undefined,
+    contextKeepRecentTurns: parseInt(process.env.CONTEXT_KEEP_RECENT_TURNS || '4', 10),
+    contextToolResultMaxTokens: parseInt(process.env.CONTEXT_TOOL_RESULT_MAX_TOKENS || '2000', 10),
     // Salesforce Auth config
     requireSalesforceAuth: process.env.REQUIRE_SALESFORCE_AUTH === 'true',
     salesforceTokenValidationTTL: parseInt(process.env.SALESFORCE_TOKEN_VALIDATION_TTL || '300000', 10),
     userRateLimitPerMinute: parseInt(process.env.USER_RATE_LIMIT_PER_MINUTE || '10', 10),
+    // Quota config
+    userQuota: parseQuotaLimits('USER'),
+    organizationQuota: parseQuotaLimits('ORG'),
+    quotaOverridesFile: process.env.QUOTA_OVERRIDES_FILE || undefined,
+    // Retry config
+    retryMaxRetries: parseInt(process.env.RETRY_MAX_RETRIES || '3', 10),
+    retryBaseDelayMs: parseInt(process.env.RETRY_BASE_DELAY_MS || '500', 10),
+    retryMaxDelayMs: parseInt(process.env.RETRY_MAX_DELAY_MS || '8000', 10),
+    retryMaxTotalMs: parseInt(process.env.RETRY_MAX_TOTAL_MS || '60000', 10),
+    // Tool execution config
+    toolConcurrency: parseInt(process.env.TOOL_CONCURRENCY || '4', 10),
+    toolResultMaxChars: parseInt(process.env.TOOL_RESULT_MAX_CHARS || '20000', 10),
+    toolResultLimits: parseToolResultLimits(process.env.TOOL_RESULT_LIMITS),
+    toolResultPreviewRows: parseInt(process.env.TOOL_RESULT_PREVIEW_ROWS || '20', 10),
+    toolSelectionTopK: parseInt(process.env.TOOL_SELECTION_TOP_K || '0', 10),
+    alwaysOnTools: process.env.TOOL_SELECTION_ALWAYS_ON !== undefined
+      ? process.env.TOOL_SELECTION_ALWAYS_ON.split(',').map(t => t.trim()).filter(Boolean)
+      : DEFAULT_ALWAYS_ON_TOOLS,
+    maxIterations,
+    maxIterationsLimit,
+    // System prompt config
+    systemPromptDir: process.env.SYSTEM_PROMPT_DIR || './prompts',
+    // Admin API config
+    adminApiKey: process.env.ADMIN_API_KEY || undefined,
+    // Tool approval config
+    requireToolApproval: process.env.REQUIRE_TOOL_APPROVAL !== 'false',
+    mutatingTools: process.env.MUTATING_TOOLS
+      ? process.env.MUTATING_TOOLS.split(',').map(t => t.trim()).filter(Boolean)
+      : DEFAULT_MUTATING_TOOLS,
   };
 }
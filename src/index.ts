@@ -3,11 +3,18 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import { loadConfig, Config } from './config/config.js';
 import { MCPClientService } from './services/mcpClient.js';
-import { IAIService } from './services/base/AIServiceBase.js';
 import { AIServiceFactory } from './services/AIServiceFactory.js';
 import { SessionManager } from './services/sessionManager.js';
+import { createSessionStore } from './services/sessionStore.js';
 import { SalesforceAuthService } from './services/salesforceAuth.js';
 import { createChatRouter } from './routes/chat.js';
+import { createAdminRouter } from './routes/admin.js';
+import { SystemPromptTemplates } from './services/systemPrompts.js';
+import { getRetryStats } from './services/retryPolicy.js';
+import { UsageTracker } from './services/usageTracker.js';
+import { createUsageStore } from './services/usageStore.js';
+import { loadPriceTable } from './services/pricing.js';
+import { QuotaService, createQuotaService } from './services/quotaService.js';
 
 // Load environment variables
 dotenv.config();
@@ -16,22 +23,32 @@ class BridgeServer {
   private app: Express;
   private config: Config;
   private mcpClient: MCPClientService;
-  private aiService: IAIService;
+  private aiServices: AIServiceFactory;
   private sessionManager: SessionManager;
   private salesforceAuthService: SalesforceAuthService;
+  private usageTracker: UsageTracker;
+  private quotaService: QuotaService;
 
   constructor() {
     this.config = loadConfig();
     this.app = express();
     this.mcpClient = new MCPClientService(this.config);
     
-    // Create AI service using factory pattern
-    this.aiService = AIServiceFactory.createAIService(this.config, this.mcpClient);
+    // Registry of AI services: the default failover chain plus models picked per request
+    this.aiServices = new AIServiceFactory(this.config, this.mcpClient);
     
-    this.sessionManager = new SessionManager(this.config.sessionTimeoutMs);
+    this.sessionManager = new SessionManager(
+      this.config.sessionTimeoutMs,
+      createSessionStore(this.config)
+    );
     this.salesforceAuthService = new SalesforceAuthService(
       this.config.salesforceTokenValidationTTL
     );
+    this.usageTracker = new UsageTracker(
+      createUsageStore(this.config),
+      loadPriceTable(this.config.modelPricesFile)
+    );
+    this.quotaService = createQuotaService(this.config, this.usageTracker);
   }
 
   private setupMiddleware(): void {
@@ -94,12 +111,19 @@ class BridgeServer {
   private setupRoutes(): void {
     // Health check
     this.app.get('/health', (req: Request, res: Response) => {
+      const aiService = this.aiServices.getDefaultService();
       res.json({
         status: 'ok',
         timestamp: Date.now(),
         mcpConnected: this.mcpClient.isConnected(),
-        aiProvider: this.aiService.getProviderName(),
-        aiModel: this.aiService.getModelName(),
+        aiProvider: aiService.getProviderName(),
+        aiModel: aiService.getModelName(),
+        // Failover chain in order, with cooldown state after retryable errors
+        providers: aiService.getProviderStatus(),
+        // Retry counters per LLM provider and MCP method since startup
+        retries: getRetryStats(),
+        // Provider/model pairs requests may pick with `provider` and `model`
+        availableModels: this.aiServices.getAvailableModels(),
         authRequired: this.config.requireSalesforceAuth,
         authMethod: this.config.requireSalesforceAuth ? 'salesforce-oauth' : 'none',
       });
@@ -110,9 +134,21 @@ class BridgeServer {
       '/api/chat',
       createChatRouter(
         this.sessionManager,
-        this.aiService,
+        this.aiServices,
         this.config,
-        this.salesforceAuthService
+        this.salesforceAuthService,
+        this.usageTracker,
+        this.quotaService
+      )
+    );
+
+    // Admin routes (disabled unless ADMIN_API_KEY is set)
+    this.app.use(
+      '/api/admin',
+      createAdminRouter(
+        this.sessionManager,
+        new SystemPromptTemplates(this.config.systemPromptDir, this.config.requireToolApproval),
+        this.config
       )
     );
 
@@ -174,8 +210,9 @@ class BridgeServer {
 
   private async shutdown(): Promise<void> {
     try {
-      this.sessionManager.destroy();
+      await this.sessionManager.destroy();
       this.salesforceAuthService.destroy();
+      await this.usageTracker.close();
       await this.mcpClient.disconnect();
       console.log('Shutdown complete');
     } catch (error) {
@@ -0,0 +1,88 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { SessionManager } from '../services/sessionManager.js';
+import { SystemPromptTemplates } from '../services/systemPrompts.js';
+import { SalesforceUserInfo } from '../types/index.js';
+import { Config } from '../config/config.js';
+
+/**
+ * Constant-time comparison of the admin key
+ */
+function isAdminKey(provided: string | undefined, expected: string): boolean {
+  if (!provided) {
+    return false;
+  }
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export function createAdminRouter(
+  sessionManager: SessionManager,
+  systemPrompts: SystemPromptTemplates,
+  config: Config
+): Router {
+  const router = Router();
+
+  // Every admin route needs the X-Admin-Key header; without ADMIN_API_KEY the admin API is off
+  router.use((req: Request, res: Response, next: NextFunction) => {
+    if (!config.adminApiKey) {
+      console.log('🔍 [DEBUG] Response Status Code: 404 (Admin API disabled)');
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'The admin API is disabled. Set ADMIN_API_KEY to enable it.',
+      });
+    }
+
+    if (!isAdminKey(req.headers['x-admin-key'] as string | undefined, config.adminApiKey)) {
+      console.log('🔍 [DEBUG] Response Status Code: 401 (Invalid admin key)');
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'A valid X-Admin-Key header is required',
+      });
+    }
+
+    next();
+  });
+
+  // GET /api/admin/system-prompt - Preview the system prompt a user would receive
+  router.get('/system-prompt', async (req: Request, res: Response) => {
+    try {
+      const stringParam = (name: string) => typeof req.query[name] === 'string' ? req.query[name] as string : undefined;
+      const userId = stringParam('userId');
+
+      // Start from the profile seen in the user's latest session; query parameters override it
+      const known = userId ? await sessionManager.findUserInfo(userId) : undefined;
+      const userInfo: Partial<SalesforceUserInfo> = {
+        ...known,
+        ...Object.fromEntries(
+          (['userId', 'organizationId', 'username', 'displayName', 'email', 'locale', 'timeZone'] as const)
+            .map(name => [name, stringParam(name)])
+            .filter(([, value]) => value !== undefined)
+        ),
+      };
+
+      const date = stringParam('date');
+      const now = date ? new Date(date) : new Date();
+      if (Number.isNaN(now.getTime())) {
+        console.log('🔍 [DEBUG] Response Status Code: 400 (Invalid date)');
+        return res.status(400).json({
+          error: 'date must be an ISO date such as 2025-10-19',
+        });
+      }
+
+      res.json({
+        ...(await systemPrompts.render(userInfo, now)),
+        knownUser: !!known,
+      });
+    } catch (error) {
+      console.error('Error rendering system prompt:', error);
+      res.status(500).json({
+        error: 'An error occurred rendering the system prompt',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  return router;
+}
@@ -1,9 +1,29 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { SessionManager } from '../services/sessionManager.js';
-import { IAIService } from '../services/base/AIServiceBase.js';
+import { isValidSessionId } from '../services/sessionStore.js';
+import { AIServiceError, IAIService } from '../services/base/AIServiceBase.js';
+import { AIServiceFactory, ModelNotAllowedError } from '../services/AIServiceFactory.js';
 import { SalesforceAuthService } from '../services/salesforceAuth.js';
-import { ChatRequest, ChatResponse, RateLimitInfo, SalesforceAuth } from '../types/index.js';
+import { InvalidUsageQueryError, UsageTracker, addTurnUsage, emptyUsageTotals } from '../services/usageTracker.js';
+import { QuotaExceededError, QuotaService } from '../services/quotaService.js';
+import {
+  ChatOptions,
+  ChatRequest,
+  ChatResponse,
+  ChatResult,
+  ChatSession,
+  ChatStreamEvent,
+  PendingAction,
+  PendingActionInfo,
+  RateLimitInfo,
+  RecordContext,
+  SalesforceAuth,
+  SessionMetadataUpdate,
+  ToolApprovalDecision,
+  TurnUsage,
+  UsageQuery,
+} from '../types/index.js';
 import { Config } from '../config/config.js';
 
 // Extend Express Request to include Salesforce auth
@@ -15,11 +35,32 @@ declare global {
   }
 }
 
+/**
+ * Strip the provider resume state before a pending action is sent to the client
+ */
+function toPendingActionInfo(action: PendingAction): PendingActionInfo {
+  const { resumeState, provider, model, ...info } = action;
+  return info;
+}
+
+/**
+ * Reject access to a session owned by a different Salesforce user
+ */
+function sendSessionForbidden(res: Response, sessionId: string) {
+  console.log(`🔍 [DEBUG] Response Status Code: 403 (Session ${sessionId} belongs to another user)`);
+  return res.status(403).json({
+    error: 'Forbidden',
+    message: 'This session belongs to another user',
+  });
+}
+
 export function createChatRouter(
   sessionManager: SessionManager,
-  aiService: IAIService,
+  aiServices: AIServiceFactory,
   config: Config,
-  salesforceAuthService: SalesforceAuthService
+  salesforceAuthService: SalesforceAuthService,
+  usageTracker: UsageTracker,
+  quotaService: QuotaService
 ): Router {
   const router = Router();
 
@@ -150,97 +191,300 @@ export function createChatRouter(
   // Apply auth middleware to all routes
   router.use(salesforceAuthMiddleware);
 
-  // POST /api/chat - Send a message and get AI response
-  router.post('/', async (req: Request, res: Response) => {
+  /**
+   * Check the caller's daily and monthly quotas before any model call.
+   * Sends a 429 response and returns false when a quota is used up.
+   */
+  const enforceQuota = async (req: Request, res: Response): Promise<boolean> => {
+    // Quotas apply to authenticated users, like the per-minute rate limit
+    const salesforceAuth = req.salesforceAuth;
+    if (!salesforceAuth) {
+      return true;
+    }
+
     try {
-      const { 
-        message, 
-        sessionId: providedSessionId,
-        includeRecordContext,
+      await quotaService.enforce(salesforceAuth.userInfo.userId, salesforceAuth.userInfo.organizationId);
+      return true;
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        console.log('🔍 [DEBUG] Response Status Code: 429 (Quota exceeded)');
+        res.status(429).json({
+          error: 'Too Many Requests',
+          message: error.message,
+          quota: error.quota,
+          allowances: error.allowances,
+          retryAfter: Math.ceil((error.quota.resetsAt - Date.now()) / 1000),
+        });
+        return false;
+      }
+      throw error;
+    }
+  };
+
+  // Sessions whose pending action is being resolved; the session store has no locking,
+  // so this keeps two decisions on the same action from both resuming it, and a new
+  // message from landing between the paused tool calls and their results
+  const resolvingSessions = new Set<string>();
+
+  /**
+   * Validate the chat request body and load (or create) the session for this turn.
+   * Sends a 400 response and returns null when the request is invalid.
+   */
+  const prepareChatTurn = async (req: Request, res: Response) => {
+    const { 
+      message, 
+      sessionId: providedSessionId,
+      includeRecordContext,
+      record,
+      objectApiName,
+      recordId,
+      provider,
+      model,
+      maxIterations
+    } = req.body as ChatRequest;
+
+    if (!message || typeof message !== 'string') {
+      console.log('🔍 [DEBUG] Response Status Code: 400 (Invalid message)');
+      res.status(400).json({
+        error: 'Message is required and must be a string',
+      });
+      return null;
+    }
+
+    // Validate record context if includeRecordContext is true
+    let recordContext: RecordContext | undefined;
+    if (includeRecordContext) {
+      if (!record || !objectApiName || !recordId) {
+        console.log('🔍 [DEBUG] Response Status Code: 400 (Missing record context)');
+        res.status(400).json({
+          error: 'When includeRecordContext is true, record, objectApiName, and recordId are required',
+        });
+        return null;
+      }
+      
+      recordContext = {
         record,
         objectApiName,
         recordId
-      } = req.body as ChatRequest;
+      };
+      
+      console.log(`📋 Including record context: ${objectApiName} (${recordId})`);
+    }
 
-      if (!message || typeof message !== 'string') {
-        console.log('🔍 [DEBUG] Response Status Code: 400 (Invalid message)');
-        return res.status(400).json({
-          error: 'Message is required and must be a string',
+    if (providedSessionId !== undefined && !isValidSessionId(providedSessionId)) {
+      console.log('🔍 [DEBUG] Response Status Code: 400 (Invalid session ID)');
+      res.status(400).json({
+        error: 'sessionId may only contain letters, digits, "-" and "_" (at most 128 characters) and may not be "sessions" or "usage"',
+      });
+      return null;
+    }
+
+    if ((provider !== undefined && typeof provider !== 'string') || (model !== undefined && typeof model !== 'string')) {
+      console.log('🔍 [DEBUG] Response Status Code: 400 (Invalid model selection)');
+      res.status(400).json({
+        error: 'provider and model must be strings',
+      });
+      return null;
+    }
+
+    if (
+      maxIterations !== undefined &&
+      (!Number.isInteger(maxIterations) || maxIterations < 1 || maxIterations > config.maxIterationsLimit)
+    ) {
+      console.log('🔍 [DEBUG] Response Status Code: 400 (Invalid maxIterations)');
+      res.status(400).json({
+        error: `maxIterations must be an integer between 1 and ${config.maxIterationsLimit}`,
+      });
+      return null;
+    }
+
+    // Resolve the requested model before touching the session
+    let aiService: IAIService;
+    try {
+      aiService = aiServices.getService({ provider, model });
+    } catch (error) {
+      if (error instanceof ModelNotAllowedError) {
+        console.log('🔍 [DEBUG] Response Status Code: 403 (Model not allowed)');
+        res.status(403).json({
+          error: 'Forbidden',
+          message: error.message,
         });
+        return null;
       }
+      throw error;
+    }
 
-      // Validate record context if includeRecordContext is true
-      let recordContext;
-      if (includeRecordContext) {
-        if (!record || !objectApiName || !recordId) {
-          console.log('🔍 [DEBUG] Response Status Code: 400 (Missing record context)');
-          return res.status(400).json({
-            error: 'When includeRecordContext is true, record, objectApiName, and recordId are required',
-          });
-        }
-        
-        recordContext = {
-          record,
-          objectApiName,
-          recordId
-        };
-        
-        console.log(`📋 Including record context: ${objectApiName} (${recordId})`);
-      }
+    // Get Salesforce auth from middleware
+    const salesforceAuth = req.salesforceAuth;
 
-      // Get Salesforce auth from middleware
-      const salesforceAuth = req.salesforceAuth;
+    if (!(await enforceQuota(req, res))) {
+      return null;
+    }
 
-      // Get or create session
-      const sessionId = providedSessionId || uuidv4();
-      let session = sessionManager.getSession(sessionId);
+    // Get or create session
+    const sessionId = providedSessionId || uuidv4();
+    let session = await sessionManager.getSession(sessionId);
+
+    if (!session) {
+      session = await sessionManager.createSession(sessionId, salesforceAuth);
+    } else if (!sessionManager.isOwnedBy(session, salesforceAuth)) {
+      sendSessionForbidden(res, sessionId);
+      return null;
+    } else if (salesforceAuth) {
+      // Update session with current auth context
+      session = (await sessionManager.updateSessionAuth(sessionId, salesforceAuth))!;
+    }
 
-      if (!session) {
-        session = sessionManager.createSession(sessionId, salesforceAuth);
-      } else if (salesforceAuth) {
-        // Update session with current auth context
-        sessionManager.updateSessionAuth(sessionId, salesforceAuth);
-        session = sessionManager.getSession(sessionId)!;
-      }
+    // A paused agentic loop must be resolved before the conversation can move on
+    if (session.pendingAction) {
+      console.log('🔍 [DEBUG] Response Status Code: 409 (Pending action)');
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'Approve or reject the pending action before sending a new message',
+        pendingAction: toPendingActionInfo(session.pendingAction),
+      });
+      return null;
+    }
 
-      // Update session with record context if provided
-      if (recordContext) {
-        session.recordContext = recordContext;
-        sessionManager.updateSession(sessionId, session);
+    // The action was already cleared, but its tool results and answer are not stored yet
+    if (resolvingSessions.has(sessionId)) {
+      console.log('🔍 [DEBUG] Response Status Code: 409 (Action being resolved)');
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'Wait for the pending action to finish before sending a new message',
+      });
+      return null;
+    }
+
+    // Update session with record context if provided
+    if (recordContext) {
+      session.recordContext = recordContext;
+      session.startedOnRecord ??= { objectApiName: recordContext.objectApiName, recordId: recordContext.recordId };
+    }
+
+    // Add user message to session
+    session.messages.push({
+      role: 'user',
+      content: message,
+      timestamp: Date.now(),
+    });
+    await sessionManager.updateSession(sessionId, session);
+
+    const options: ChatOptions = {
+      maxIterations,
+      // One retry budget for the whole request, whichever providers and summaries it takes
+      retryDeadline: Date.now() + config.retryMaxTotalMs,
+    };
+
+    return { message, sessionId, session, salesforceAuth, recordContext, aiService, options };
+  };
+
+  /**
+   * Price LLM usage and charge it to the session owner and the session's totals
+   * @param requests - Chat requests the usage counts as; 0 for a history summary
+   */
+  const chargeUsage = async (
+    session: ChatSession,
+    provider: string,
+    model: string,
+    usage: Omit<TurnUsage, 'cost'>,
+    requests: number = 1
+  ): Promise<TurnUsage> => {
+    const priced = await usageTracker.record({
+      userId: session.userId,
+      organizationId: session.organizationId,
+      provider,
+      model,
+      usage,
+      requests,
+    });
+    session.usage = addTurnUsage(session.usage ?? emptyUsageTotals(), priced, requests);
+    return priced;
+  };
+
+  /**
+   * History to send with the message just added, which is left out
+   * Older turns may be folded into session.summary; those summary calls are charged too.
+   */
+  const loadHistory = async (aiService: IAIService, session: ChatSession, options: ChatOptions) => {
+    const history = await aiService.prepareHistory(session, session.messages.slice(0, -1), options);
+    if (history.usage.llmCalls > 0) {
+      await chargeUsage(session, history.provider, history.model, history.usage, 0);
+    }
+    return history.messages;
+  };
+
+  /**
+   * Store the assistant reply (or the paused tool calls) on the session and build the response payload
+   */
+  const completeChatTurn = async (sessionId: string, session: ChatSession, result: ChatResult): Promise<ChatResponse> => {
+    const usage = await chargeUsage(session, result.provider, result.model, result.usage);
+
+    // Keep the tool exchange in the history so later turns can reuse its results.
+    // While waiting for approval the reply is only a request for approval; the real
+    // answer is stored once the loop resumes.
+    session.messages.push(...result.messages);
+    if (result.pendingAction) {
+      session.pendingAction = result.pendingAction;
+    }
+
+    // Update session
+    await sessionManager.updateSession(sessionId, session);
+
+    return {
+      sessionId,
+      message: result.message,
+      timestamp: Date.now(),
+      provider: result.provider,
+      model: result.model,
+      toolCalls: result.toolCalls,
+      usage,
+      ...(result.partial ? { partial: true } : {}),
+      ...(result.pendingAction ? { pendingAction: toPendingActionInfo(result.pendingAction) } : {}),
+    };
+  };
+
+  /**
+   * Store what a turn that failed part-way already did: the results of tools that ran
+   * stay in the history, and the model calls made before the error are charged
+   */
+  const saveFailedTurn = async (sessionId: string, session: ChatSession, error: unknown) => {
+    try {
+      if (error instanceof AIServiceError) {
+        if (error.usage && error.usage.llmCalls > 0 && error.model) {
+          await chargeUsage(session, error.provider, error.model, error.usage);
+        }
+        session.messages.push(...error.toolMessages);
       }
+      // Also keeps a history summary and its usage made before the error
+      await sessionManager.updateSession(sessionId, session);
+    } catch (saveError) {
+      console.error(`Error saving the failed turn of session ${sessionId}:`, saveError);
+    }
+  };
 
-      // Add user message to session
-      session.messages.push({
-        role: 'user',
-        content: message,
-        timestamp: Date.now(),
-      });
+  // POST /api/chat - Send a message and get AI response
+  router.post('/', async (req: Request, res: Response) => {
+    let turn: Awaited<ReturnType<typeof prepareChatTurn>> = null;
+    try {
+      turn = await prepareChatTurn(req, res);
+      if (!turn) return;
+
+      const { message, sessionId, session, salesforceAuth, recordContext, aiService, options } = turn;
 
       // Get AI response with Salesforce auth context and record context
-      console.log(`🔍 [DEBUG] Passing ${session.messages.length - 1} messages to AI service`);
-      const aiResponse = await aiService.chat(
-        session.messages.slice(0, -1), // Don't include the message we just added
+      const history = await loadHistory(aiService, session, options);
+      console.log(`🔍 [DEBUG] Passing ${history.length} messages to AI service`);
+      const result = await aiService.chat(
+        history,
         message,
         salesforceAuth,
-        recordContext
+        recordContext,
+        options
       );
 
-      // Add AI response to session
-      session.messages.push({
-        role: 'assistant',
-        content: aiResponse,
-        timestamp: Date.now(),
-      });
-
-      // Update session
-      sessionManager.updateSession(sessionId, session);
-
       // Send response
-      const response: ChatResponse = {
-        sessionId,
-        message: aiResponse,
-        timestamp: Date.now(),
-      };
+      const response = await completeChatTurn(sessionId, session, result);
 
       // DEBUG: Log response status
       console.log('🔍 [DEBUG] Response Status Code: 200');
@@ -249,6 +493,9 @@ export function createChatRouter(
       res.json(response);
     } catch (error) {
       console.error('Error in chat endpoint:', error);
+      if (turn) {
+        await saveFailedTurn(turn.sessionId, turn.session, error);
+      }
       
       // Check for specific error types
       if (error instanceof Error) {
@@ -270,11 +517,211 @@ export function createChatRouter(
     }
   });
 
+  // POST /api/chat/stream - Same as POST /api/chat, streamed as Server-Sent Events
+  router.post('/stream', async (req: Request, res: Response) => {
+    let turn: Awaited<ReturnType<typeof prepareChatTurn>>;
+    try {
+      turn = await prepareChatTurn(req, res);
+    } catch (error) {
+      // The SSE headers are not sent yet, so fail like POST /api/chat
+      console.error('Error in chat stream endpoint:', error);
+      console.log('🔍 [DEBUG] Response Status Code: 500');
+      res.status(500).json({
+        error: 'An error occurred processing your request',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return;
+    }
+    if (!turn) return;
+
+    const { message, sessionId, session, salesforceAuth, recordContext, aiService, options } = turn;
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Session-ID', sessionId);
+    res.flushHeaders();
+
+    // Keep running the turn if the client goes away so the session stays consistent
+    const sendEvent = (event: ChatStreamEvent) => {
+      if (res.writableEnded || res.destroyed) return;
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    try {
+      const history = await loadHistory(aiService, session, options);
+      console.log(`🔍 [DEBUG] Streaming ${history.length} messages to AI service`);
+      const result = await aiService.chatStream(
+        history,
+        message,
+        sendEvent,
+        salesforceAuth,
+        recordContext,
+        options
+      );
+
+      sendEvent({ type: 'message', response: await completeChatTurn(sessionId, session, result) });
+    } catch (error) {
+      console.error('Error in chat stream endpoint:', error);
+      await saveFailedTurn(sessionId, session, error);
+      sendEvent({
+        type: 'error',
+        error: 'An error occurred processing your request',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      res.end();
+    }
+  });
+
+  // POST /api/chat/:sessionId/actions/:actionId - Approve or reject a pending tool call
+  router.post('/:sessionId/actions/:actionId', async (req: Request<{ sessionId: string; actionId: string }>, res: Response) => {
+    const { sessionId, actionId } = req.params;
+    if (resolvingSessions.has(sessionId)) {
+      console.log('🔍 [DEBUG] Response Status Code: 409 (Action already being resolved)');
+      return res.status(409).json({
+        error: 'Conflict',
+        message: 'The pending action of this session is already being resolved',
+      });
+    }
+
+    resolvingSessions.add(sessionId);
+    let session: ChatSession | undefined;
+    try {
+      const { approved, reason } = req.body as ToolApprovalDecision;
+
+      if (typeof approved !== 'boolean') {
+        console.log('🔍 [DEBUG] Response Status Code: 400 (Invalid decision)');
+        return res.status(400).json({
+          error: 'approved is required and must be a boolean',
+        });
+      }
+
+      session = await sessionManager.getSession(sessionId);
+      if (!session) {
+        return res.status(404).json({
+          error: 'Session not found',
+        });
+      }
+
+      if (!sessionManager.isOwnedBy(session, req.salesforceAuth)) {
+        return sendSessionForbidden(res, sessionId);
+      }
+
+      const action = session.pendingAction;
+      if (!action || action.actionId !== actionId) {
+        return res.status(404).json({
+          error: 'Pending action not found',
+        });
+      }
+
+      // Resuming calls the model again and counts as a request, so it is held to the quotas too.
+      // The action stays pending and can still be resolved once the quota resets.
+      if (!(await enforceQuota(req, res))) {
+        return;
+      }
+
+      // Clear the action before resuming so it can never run twice
+      session.pendingAction = undefined;
+      await sessionManager.updateSession(sessionId, session);
+
+      console.log(`🔍 [DEBUG] Action ${actionId} ${approved ? 'approved' : 'rejected'} for session ${sessionId}`);
+      // Resume on the service that paused, even if it was picked per request
+      const result = await aiServices.getServiceForAction(action).resumeChat(
+        action,
+        { approved, reason: typeof reason === 'string' ? reason : undefined },
+        req.salesforceAuth
+      );
+
+      const response = await completeChatTurn(sessionId, session, result);
+
+      console.log('🔍 [DEBUG] Response Status Code: 200');
+      res.json(response);
+    } catch (error) {
+      console.error('Error resolving pending action:', error);
+      if (session) {
+        // The approved tools may have run before the model call failed
+        await saveFailedTurn(sessionId, session, error);
+      }
+      res.status(500).json({
+        error: 'An error occurred processing your request',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      resolvingSessions.delete(sessionId);
+    }
+  });
+
+  // GET /api/chat/sessions - List the caller's sessions
+  router.get('/sessions', async (req: Request, res: Response) => {
+    try {
+      res.json({
+        sessions: await sessionManager.listSessions(req.salesforceAuth),
+      });
+    } catch (error) {
+      console.error('Error listing sessions:', error);
+      res.status(500).json({
+        error: 'An error occurred listing sessions',
+      });
+    }
+  });
+
+  // GET /api/chat/usage - LLM usage and cost of the caller (or the caller's org with scope=organization)
+  router.get('/usage', async (req: Request, res: Response) => {
+    try {
+      const { from, to, scope } = req.query;
+
+      const isDay = (value: unknown) => value === undefined || (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value));
+      if (!isDay(from) || !isDay(to) || (scope !== undefined && scope !== 'user' && scope !== 'organization')) {
+        console.log('🔍 [DEBUG] Response Status Code: 400 (Invalid usage query)');
+        return res.status(400).json({
+          error: 'from and to must be dates (YYYY-MM-DD) and scope must be "user" or "organization"',
+        });
+      }
+
+      const query: UsageQuery = { from: from as string | undefined, to: to as string | undefined };
+      const userInfo = req.salesforceAuth?.userInfo;
+      if (userInfo) {
+        query.organizationId = userInfo.organizationId;
+        if (scope !== 'organization') {
+          query.userId = userInfo.userId;
+        }
+      } else {
+        // Without auth every caller is trusted, so any user or org may be queried
+        if (typeof req.query.userId === 'string') query.userId = req.query.userId;
+        if (typeof req.query.organizationId === 'string') query.organizationId = req.query.organizationId;
+      }
+
+      // Any user of the org may see its totals, but not the other users' records
+      const { records, ...report } = await usageTracker.query(query);
+      const showRecords = !userInfo || scope !== 'organization';
+
+      res.json({
+        ...report,
+        ...(showRecords ? { records } : {}),
+        // What is left of the caller's quotas, when any are configured
+        ...(userInfo ? { allowances: await quotaService.getAllowances(userInfo.userId, userInfo.organizationId) } : {}),
+      });
+    } catch (error) {
+      if (error instanceof InvalidUsageQueryError) {
+        console.log('🔍 [DEBUG] Response Status Code: 400 (Invalid usage range)');
+        return res.status(400).json({
+          error: error.message,
+        });
+      }
+      console.error('Error querying usage:', error);
+      res.status(500).json({
+        error: 'An error occurred querying usage',
+      });
+    }
+  });
+
   // GET /api/chat/:sessionId - Get chat history
-  router.get('/:sessionId', (req: Request, res: Response) => {
+  router.get('/:sessionId', async (req: Request<{ sessionId: string }>, res: Response) => {
     try {
       const { sessionId } = req.params;
-      const session = sessionManager.getSession(sessionId);
+      const session = await sessionManager.getSession(sessionId);
 
       if (!session) {
         return res.status(404).json({
@@ -282,11 +729,19 @@ export function createChatRouter(
         });
       }
 
+      if (!sessionManager.isOwnedBy(session, req.salesforceAuth)) {
+        return sendSessionForbidden(res, sessionId);
+      }
+
       res.json({
         sessionId: session.sessionId,
+        title: sessionManager.summarize(session).title,
+        pinned: !!session.pinned,
         messages: session.messages,
         createdAt: session.createdAt,
         lastActivityAt: session.lastActivityAt,
+        usage: session.usage ?? emptyUsageTotals(),
+        ...(session.pendingAction ? { pendingAction: toPendingActionInfo(session.pendingAction) } : {}),
       });
     } catch (error) {
       console.error('Error getting chat history:', error);
@@ -296,11 +751,56 @@ export function createChatRouter(
     }
   });
 
+  // PATCH /api/chat/:sessionId - Rename or pin a session
+  router.patch('/:sessionId', async (req: Request<{ sessionId: string }>, res: Response) => {
+    try {
+      const { sessionId } = req.params;
+      const { title, pinned } = req.body as SessionMetadataUpdate;
+
+      if (
+        (title === undefined && pinned === undefined) ||
+        (title !== undefined && typeof title !== 'string') ||
+        (pinned !== undefined && typeof pinned !== 'boolean')
+      ) {
+        console.log('🔍 [DEBUG] Response Status Code: 400 (Invalid session update)');
+        return res.status(400).json({
+          error: 'Provide a string title and/or a boolean pinned',
+        });
+      }
+
+      // Renaming or pinning is not activity, so don't bump lastActivityAt
+      const session = await sessionManager.findSession(sessionId);
+      if (!session) {
+        return res.status(404).json({
+          error: 'Session not found',
+        });
+      }
+
+      if (!sessionManager.isOwnedBy(session, req.salesforceAuth)) {
+        return sendSessionForbidden(res, sessionId);
+      }
+
+      const updated = (await sessionManager.updateSessionMetadata(sessionId, { title, pinned }))!;
+      res.json(sessionManager.summarize(updated));
+    } catch (error) {
+      console.error('Error updating session:', error);
+      res.status(500).json({
+        error: 'An error occurred updating the session',
+      });
+    }
+  });
+
   // DELETE /api/chat/:sessionId - Clear chat session
-  router.delete('/:sessionId', (req: Request, res: Response) => {
+  router.delete('/:sessionId', async (req: Request<{ sessionId: string }>, res: Response) => {
     try {
       const { sessionId } = req.params;
-      sessionManager.deleteSession(sessionId);
+      const session = await sessionManager.getSession(sessionId);
+
+      if (session && !sessionManager.isOwnedBy(session, req.salesforceAuth)) {
+        return sendSessionForbidden(res, sessionId);
+      }
+
+      await sessionManager.deleteSession(sessionId);
 
       res.json({
         success: true,
@@ -1,44 +1,221 @@
-import { Config } from '../config/config.js';
+import { Config, ProviderTarget, getProviderModel, isAIProvider } from '../config/config.js';
 import { MCPClientService } from './mcpClient.js';
-import { IAIService } from './base/AIServiceBase.js';
+import { AvailableModel, ModelSelection, PendingAction } from '../types/index.js';
+import { BaseAIService, IAIService } from './base/AIServiceBase.js';
 import { AnthropicService } from './anthropicService.js';
 import { OpenRouterService } from './openRouterService.js';
 import { PerplexityService } from './perplexityService.js';
 import { OpenAIService } from './openAIService.js';
+import { AzureOpenAIService } from './azureOpenAIService.js';
+import { GeminiService } from './geminiService.js';
+import { OpenAICompatibleService } from './openAICompatibleService.js';
+import { FailoverAIService } from './failoverAIService.js';
+import { FixtureRecorder, MockAIService } from './mockAIService.js';
+
+// Per-request services kept at once; the least recently used is dropped first
+const MAX_REGISTERED_SERVICES = 32;
+
+/**
+ * Raised when a request asks for a provider/model that is not on the allowlist
+ */
+export class ModelNotAllowedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelNotAllowedError';
+  }
+}
 
 /**
  * Factory to create AI service instances based on configuration
  * Makes it easy to add new AI providers in the future
+ *
+ * An instance keeps a registry of the services it created: the default failover
+ * chain plus one service per provider/model picked by requests, created on first use.
+ * The per-request services are bounded, since a wildcard allowlist admits any model name.
  */
 export class AIServiceFactory {
+  private defaultService: FailoverAIService;
+  private services: Map<string, IAIService> = new Map();
+
+  constructor(private config: Config, private mcpClient: MCPClientService) {
+    this.defaultService = AIServiceFactory.createAIService(config, mcpClient);
+  }
+
+  /**
+   * The configured failover chain, used when a request does not pick a model
+   */
+  getDefaultService(): FailoverAIService {
+    return this.defaultService;
+  }
+
+  /**
+   * Service for an optional per-request provider/model choice
+   * A model without a provider refers to the primary provider; a provider without
+   * a model uses that provider's configured model.
+   * @throws ModelNotAllowedError when the choice is not allowed
+   */
+  getService(selection: ModelSelection = {}): IAIService {
+    if (!selection.provider && !selection.model) {
+      return this.defaultService;
+    }
+
+    const provider = (selection.provider || this.config.aiProvider).toLowerCase();
+    if (!isAIProvider(provider)) {
+      throw new ModelNotAllowedError(`Unknown AI provider "${selection.provider}"`);
+    }
+
+    const target: ProviderTarget = { provider, model: selection.model || getProviderModel(this.config, provider) };
+
+    // The primary target keeps the failover chain behind it
+    const primary = this.config.aiProviderChain[0];
+    if (target.provider === primary.provider && target.model === primary.model) {
+      return this.defaultService;
+    }
+
+    if (!this.isAllowed(target)) {
+      throw new ModelNotAllowedError(`Model "${target.model}" of provider "${target.provider}" is not allowed`);
+    }
+
+    const key = `${target.provider}:${target.model}`;
+    let service = this.services.get(key);
+    if (service) {
+      // Map order is insertion order, so moving it to the end keeps the oldest first
+      this.services.delete(key);
+    } else {
+      service = AIServiceFactory.createProviderService(target, this.config, this.mcpClient);
+    }
+    this.services.set(key, service);
+
+    if (this.services.size > MAX_REGISTERED_SERVICES) {
+      this.services.delete(this.services.keys().next().value!);
+    }
+    return service;
+  }
+
   /**
-   * Create an AI service instance based on the configured provider
+   * Service that paused a pending action, so the loop resumes where it stopped
+   * A per-request service dropped from the registry meanwhile is created again.
+   */
+  getServiceForAction(action: PendingAction): IAIService {
+    // Provider names are the provider IDs in display case
+    const provider = action.provider.toLowerCase();
+    if (isAIProvider(provider) && this.isAllowed({ provider, model: action.model })) {
+      return this.getService({ provider, model: action.model });
+    }
+    // The failover chain finds the matching entry itself
+    return this.defaultService;
+  }
+
+  /**
+   * Provider/model pairs requests may choose, for /health
+   */
+  getAvailableModels(): AvailableModel[] {
+    const chain = this.config.aiProviderChain.map((target, index): AvailableModel => ({
+      ...target,
+      source: 'chain',
+      default: index === 0,
+      initialized: true,
+    }));
+
+    const allowlist = this.config.modelAllowlist
+      .filter(target => !this.config.aiProviderChain.some(entry => entry.provider === target.provider && entry.model === target.model))
+      .map((target): AvailableModel => ({
+        ...target,
+        source: 'allowlist',
+        default: false,
+        initialized: [...this.services.values()].some(service =>
+          service.getProviderName().toLowerCase() === target.provider && matchesModelPattern(target.model, service.getModelName())
+        ),
+      }));
+
+    return [...chain, ...allowlist];
+  }
+
+  /**
+   * Chain members are always allowed; other models must match an allowlist entry
+   */
+  private isAllowed(target: ProviderTarget): boolean {
+    const inChain = this.config.aiProviderChain.some(
+      entry => entry.provider === target.provider && entry.model === target.model
+    );
+
+    return inChain || this.config.modelAllowlist.some(
+      entry => entry.provider === target.provider && matchesModelPattern(entry.model, target.model)
+    );
+  }
+
+  /**
+   * Create the AI service for the configured provider chain
+   * The chain is wrapped in a failover service even when it has a single provider,
+   * so callers always get provider health and attribution the same way.
    * @param config - Application configuration
    * @param mcpClient - MCP client service for tool execution
    * @returns Configured AI service instance
    */
-  static createAIService(config: Config, mcpClient: MCPClientService): IAIService {
-    console.log(`[AIServiceFactory] Creating AI service: ${config.aiProvider}`);
+  static createAIService(config: Config, mcpClient: MCPClientService): FailoverAIService {
+    const chain = config.aiProviderChain.map(target => AIServiceFactory.createProviderService(target, config, mcpClient));
+    return new FailoverAIService(chain, config.failoverCooldownMs);
+  }
+
+  /**
+   * Create the service for a single provider and model
+   */
+  static createProviderService(target: ProviderTarget, config: Config, mcpClient: MCPClientService): IAIService {
+    console.log(`[AIServiceFactory] Creating AI service: ${target.provider} (${target.model})`);
     
-    switch (config.aiProvider) {
+    switch (target.provider) {
       case 'anthropic':
-        return new AnthropicService(config, mcpClient);
+        return new AnthropicService(config, mcpClient, target.model);
       
       case 'openrouter':
-        return new OpenRouterService(config, mcpClient);
+        return new OpenRouterService(config, mcpClient, target.model);
 
       case 'openai':
-        return new OpenAIService(config, mcpClient);
+        return new OpenAIService(config, mcpClient, target.model);
+
+      case 'azure-openai':
+        return new AzureOpenAIService(config, mcpClient, target.model);
 
       case 'perplexity':
-        return new PerplexityService(config, mcpClient);
+        return new PerplexityService(config, mcpClient, target.model);
+
+      case 'gemini':
+        return new GeminiService(config, mcpClient, target.model);
+
+      case 'openai-compatible':
+        return new OpenAICompatibleService(config, mcpClient, target.model);
+
+      case 'mock':
+        return AIServiceFactory.createMockService(target, config, mcpClient);
       
       default:
         // This should never happen due to config validation,
         // but TypeScript needs this for exhaustiveness checking
-        throw new Error(`Unsupported AI provider: ${config.aiProvider}`);
+        throw new Error(`Unsupported AI provider: ${target.provider}`);
     }
   }
+
+  /**
+   * Mock provider; in record mode this is the real MOCK_RECORD_PROVIDER with its calls written to the fixture
+   */
+  private static createMockService(target: ProviderTarget, config: Config, mcpClient: MCPClientService): IAIService {
+    if (config.mockMode !== 'record') {
+      return new MockAIService(config, mcpClient, target.model);
+    }
+
+    const service = AIServiceFactory.createProviderService(config.mockRecordTarget!, config, mcpClient) as BaseAIService;
+    service.setExchangeRecorder(new FixtureRecorder(config.mockFixtureFile!));
+    console.log(`[AIServiceFactory] Recording ${config.mockRecordTarget!.provider} exchanges to ${config.mockFixtureFile}`);
+    return service;
+  }
+}
+
+/**
+ * Match a model name against an allowlist entry where `*` is a wildcard
+ */
+function matchesModelPattern(pattern: string, model: string): boolean {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`).test(model);
 }
 
 /**
@@ -47,8 +224,8 @@ export class AIServiceFactory {
  * 2. Adding the provider type to AIProvider in config.ts
  * 3. Adding a new case in the switch statement above
  * 
- * Example for adding Google Gemini:
+ * Example for adding Mistral:
  * 
- * case 'gemini':
- *   return new GeminiService(config, mcpClient);
+ * case 'mistral':
+ *   return new MistralService(config, mcpClient, target.model);
  */
@@ -1,17 +1,30 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { Config } from '../config/config.js';
-import { MCPClientService } from './mcpClient.js';
-import { ChatMessage } from '../types/index.js';
-import { BaseAIService } from './base/AIServiceBase.js';
+import { MCPClientService, MCPTool } from './mcpClient.js';
+import { ChatMessage, TokenUsage } from '../types/index.js';
+import { BaseAIService, ChatTurnContext, ModelReply, ModelRequest } from './base/AIServiceBase.js';
+
+/**
+ * Prompt caching fields; the API accepts them, but this SDK version only types them in the beta namespace
+ */
+type CacheControl = { cache_control?: { type: 'ephemeral' } };
+
+const EPHEMERAL_CACHE: CacheControl = { cache_control: { type: 'ephemeral' } };
+
+type AnthropicUsage = Anthropic.Usage & {
+  cache_read_input_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+};
 
 export class AnthropicService extends BaseAIService {
   private client: Anthropic;
   private model: string;
 
-  constructor(config: Config, mcpClient: MCPClientService) {
-    super(mcpClient);
-    this.model = config.anthropicModel;
-    this.client = new Anthropic({ apiKey: config.anthropicApiKey });
+  constructor(config: Config, mcpClient: MCPClientService, model: string = config.anthropicModel) {
+    super(config, mcpClient);
+    this.model = model;
+    // Retries are handled by the shared retry policy so they count against the request's budget
+    this.client = new Anthropic({ apiKey: config.anthropicApiKey, maxRetries: 0 });
   }
 
   getProviderName(): string {
@@ -22,142 +35,183 @@ export class AnthropicService extends BaseAIService {
     return this.model;
   }
 
-  async chat(messages: ChatMessage[], userMessage: string, salesforceAuth?: any, recordContext?: any): Promise<string> {
-    try {
-      // Get available tools from MCP server
-      const tools = await this.getToolsForClaude();
-
-      // Prepend record context to user message if provided
-      let enhancedUserMessage = userMessage;
-      if (recordContext) {
-        const contextPrefix = this.formatRecordContext(recordContext);
-        enhancedUserMessage = contextPrefix + userMessage;
-        console.log(`📋 [Anthropic] Record context included for ${recordContext.objectApiName} (${recordContext.recordId})`);
+  protected async callModel(request: ModelRequest, turn: ChatTurnContext): Promise<ModelReply> {
+    const caching = this.config.anthropicPromptCaching;
+    const messages = this.toAnthropicMessages(request.messages);
+    const tools = this.toClaudeTools(request.tools);
+
+    // Breakpoints cache the prefix up to and including the marked block. The API
+    // orders it tools, system, messages, so the tool list and the system prompt are
+    // shared by every call, and the conversation so far is reused by the next loop
+    // iteration and the next message of the session.
+    if (caching) {
+      if (tools.length > 0) {
+        Object.assign(tools[tools.length - 1], EPHEMERAL_CACHE);
       }
+      this.addConversationBreakpoint(messages);
+    }
 
-      // Build conversation history (Anthropic only accepts user/assistant roles)
-      const anthropicMessages = [
-        ...messages
-          .filter(msg => msg.role === 'user' || msg.role === 'assistant')
-          .map(msg => ({
-            role: msg.role as 'user' | 'assistant',
-            content: msg.content,
-          })),
-        {
-          role: 'user' as const,
-          content: enhancedUserMessage,
-        },
-      ];
-
-      console.log(`[Anthropic] Processing message with ${tools.length} available tools`);
-      console.log('📤 [Anthropic] Message being sent to LLM:', {
-        userMessage: userMessage.substring(0, 100) + (userMessage.length > 100 ? '...' : ''),
-        enhancedMessage: enhancedUserMessage.substring(0, 200) + (enhancedUserMessage.length > 200 ? '...' : ''),
-        hasRecordContext: !!recordContext,
-        messageLength: enhancedUserMessage.length
-      });
-
-      // Call Claude with tools
-      let response = await this.client.messages.create({
-        model: this.model,
-        max_tokens: 4096,
-        system: this.getSystemPrompt(),
-        messages: anthropicMessages,
-        tools,
-      });
-
-      console.log('[Anthropic] Initial response:', {
-        stopReason: response.stop_reason,
-        contentBlocks: response.content.length,
-      });
-
-      let iteration = 0;
-      const maxIterations = 10;
-
-      // Agentic loop: Handle tool calls
-      while (response.stop_reason === 'tool_use' && iteration < maxIterations) {
-        iteration++;
-        const toolUseBlock = response.content.find(
-          (block) => block.type === 'tool_use'
-        );
-
-        if (!toolUseBlock || toolUseBlock.type !== 'tool_use') {
-          break;
-        }
+    const response = await this.createMessage({
+      model: this.model,
+      max_tokens: 4096,
+      system: caching
+        ? [{ type: 'text', text: request.systemPrompt, ...EPHEMERAL_CACHE }]
+        : request.systemPrompt,
+      messages,
+      ...(tools.length > 0 ? { tools } : {}),
+      // tool_choice 'none' is supported by the API but missing from this SDK version's types
+      ...(tools.length > 0 && request.toolChoice === 'none'
+        ? { tool_choice: { type: 'none' } as unknown as Anthropic.ToolChoice }
+        : {}),
+    }, turn);
+
+    console.log('[Anthropic] Response:', {
+      stopReason: response.stop_reason,
+      contentBlocks: response.content.length,
+    });
+
+    if (caching) {
+      this.logCacheUsage(response.usage);
+    }
 
-        console.log(`[Anthropic] Iteration ${iteration}: Using tool ${toolUseBlock.name}`);
-
-        // Execute the tool via MCP with Salesforce auth context
-        const toolResult = await this.executeTool(
-          toolUseBlock.name,
-          toolUseBlock.input as Record<string, unknown>,
-          salesforceAuth
-        );
-
-        // Add assistant message and tool result to conversation
-        anthropicMessages.push({
-          role: 'assistant',
-          content: response.content,
-        } as any);
-
-        anthropicMessages.push({
-          role: 'user',
-          content: [
-            {
-              type: 'tool_result',
-              tool_use_id: toolUseBlock.id,
-              content: JSON.stringify(toolResult),
-            },
-          ],
-        } as any);
-
-        // Continue conversation with tool result
-        response = await this.client.messages.create({
-          model: this.model,
-          max_tokens: 4096,
-          system: this.getSystemPrompt(),
-          messages: anthropicMessages,
-          tools,
-        });
-
-        console.log(`[Anthropic] Iteration ${iteration} response:`, {
-          stopReason: response.stop_reason,
-          contentBlocks: response.content.length,
-        });
-      }
+    const text = response.content
+      .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+      .map(block => block.text)
+      .join('\n\n');
+
+    const toolCalls = response.content
+      .filter((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use')
+      .map(block => ({ id: block.id, name: block.name, arguments: block.input as Record<string, unknown> }));
 
-      if (iteration >= maxIterations) {
-        return 'I apologize, but I reached the maximum number of steps while processing your request. Please try simplifying your request or breaking it into smaller parts.';
+    return { text, toolCalls, usage: this.toTokenUsage(response.usage) };
+  }
+
+  /**
+   * Mark the last block of the conversation as a cache breakpoint
+   * A string content is turned into a text block so it can carry the marker.
+   */
+  private addConversationBreakpoint(messages: Anthropic.MessageParam[]): void {
+    const last = messages[messages.length - 1];
+    if (!last) {
+      return;
+    }
+
+    if (typeof last.content === 'string') {
+      if (last.content) {
+        last.content = [{ type: 'text', text: last.content, ...EPHEMERAL_CACHE }];
       }
+    } else if (last.content.length > 0) {
+      Object.assign(last.content[last.content.length - 1], EPHEMERAL_CACHE);
+    }
+  }
+
+  private logCacheUsage(usage: AnthropicUsage): void {
+    const cacheRead = usage.cache_read_input_tokens ?? 0;
+    const cacheWrite = usage.cache_creation_input_tokens ?? 0;
+    console.log(
+      `[Anthropic] Prompt cache ${cacheRead > 0 ? 'hit' : 'miss'}: ` +
+      `${cacheRead} tokens read, ${cacheWrite} written, ${usage.input_tokens} uncached`
+    );
+  }
 
-      // Extract final text response
-      const textContent = response.content.find(
-        (block: any) => block.type === 'text'
-      );
+  /**
+   * Anthropic reports cache reads and writes separately from input_tokens
+   */
+  private toTokenUsage(usage: AnthropicUsage): TokenUsage {
+    const cacheRead = usage.cache_read_input_tokens ?? 0;
+    const cacheWrite = usage.cache_creation_input_tokens ?? 0;
+    return {
+      inputTokens: usage.input_tokens + cacheRead + cacheWrite,
+      outputTokens: usage.output_tokens,
+      cachedInputTokens: cacheRead,
+      cacheWriteTokens: cacheWrite,
+    };
+  }
 
-      if (textContent && textContent.type === 'text') {
-        return textContent.text;
+  /**
+   * Map neutral messages to Messages API turns
+   * Tool calls become tool_use blocks on the assistant turn; consecutive tool results
+   * are grouped into the following user turn as tool_result blocks.
+   */
+  private toAnthropicMessages(messages: ChatMessage[]): Anthropic.MessageParam[] {
+    const anthropicMessages: Anthropic.MessageParam[] = [];
+
+    for (const msg of messages) {
+      if (msg.role === 'tool') {
+        const toolResult: Anthropic.ToolResultBlockParam = {
+          type: 'tool_result',
+          tool_use_id: msg.tool_call_id!,
+          content: msg.content,
+        };
+
+        const previous = anthropicMessages[anthropicMessages.length - 1];
+        if (previous?.role === 'user' && Array.isArray(previous.content)) {
+          previous.content.push(toolResult);
+        } else {
+          anthropicMessages.push({ role: 'user', content: [toolResult] });
+        }
+        continue;
       }
 
-      return 'I processed your request but had no text response to provide.';
-    } catch (error: any) {
-      console.error('[Anthropic] Error:', error.message);
-      
-      if (error.status === 401) {
-        throw new Error('Invalid Anthropic API key. Please check your ANTHROPIC_API_KEY environment variable.');
+      if (msg.role === 'assistant' && msg.tool_calls?.length) {
+        const content: Array<Anthropic.TextBlockParam | Anthropic.ToolUseBlockParam> = [];
+        if (msg.content) {
+          content.push({ type: 'text', text: msg.content });
+        }
+        for (const call of msg.tool_calls) {
+          let input: unknown = {};
+          try {
+            input = JSON.parse(call.function.arguments || '{}');
+          } catch (e) {
+            input = {};
+          }
+          content.push({ type: 'tool_use', id: call.id, name: call.function.name, input });
+        }
+        anthropicMessages.push({ role: 'assistant', content });
+        continue;
       }
-      
-      if (error.status === 429) {
-        throw new Error('Rate limit exceeded. Please try again in a moment.');
+
+      // Anthropic only accepts user/assistant roles
+      if (msg.role === 'user' || msg.role === 'assistant') {
+        anthropicMessages.push({ role: msg.role, content: msg.content });
       }
-      
-      throw new Error(`Anthropic API error: ${error.message}`);
     }
+
+    return anthropicMessages;
+  }
+
+  protected toServiceError(error: any): Error {
+    console.error('[Anthropic] Error:', error.message);
+
+    if (error.status === 401) {
+      return new Error('Invalid Anthropic API key. Please check your ANTHROPIC_API_KEY environment variable.');
+    }
+
+    if (error.status === 429) {
+      return new Error('Rate limit exceeded. Please try again in a moment.');
+    }
+
+    return new Error(`Anthropic API error: ${error.message}`);
   }
 
-  private async getToolsForClaude(): Promise<Anthropic.Tool[]> {
-    const mcpTools = await this.getMCPTools();
+  /**
+   * Send a Messages API request, streaming text deltas when a listener is attached
+   */
+  private async createMessage(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    turn: ChatTurnContext
+  ): Promise<Anthropic.Message> {
+    if (!turn.onEvent) {
+      return this.client.messages.create(params);
+    }
+
+    const onEvent = turn.onEvent;
+    const stream = this.client.messages.stream(params);
+    stream.on('text', (delta) => onEvent({ type: 'text', delta }));
+    return stream.finalMessage();
+  }
 
+  private toClaudeTools(mcpTools: MCPTool[]): Array<Anthropic.Tool & CacheControl> {
     return mcpTools.map((tool: any) => ({
       name: tool.name,
       description: tool.description || '',
@@ -0,0 +1,61 @@
+import { Config } from '../config/config.js';
+import { MCPClientService } from './mcpClient.js';
+import { OpenAIService, ResponsesEndpoint } from './openAIService.js';
+
+/**
+ * Responses API endpoint of an Azure OpenAI resource
+ * `api-version=v1` selects the versionless /openai/v1 routes; any other value is
+ * sent as the api-version query parameter of the dated /openai routes.
+ */
+function azureEndpoint(config: Config): ResponsesEndpoint {
+  const headers = { 'api-key': config.azureOpenaiApiKey };
+
+  if (config.azureOpenaiApiVersion === 'v1') {
+    return { baseUrl: `${config.azureOpenaiEndpoint}/openai/v1`, headers };
+  }
+
+  return {
+    baseUrl: `${config.azureOpenaiEndpoint}/openai`,
+    headers,
+    params: { 'api-version': config.azureOpenaiApiVersion },
+  };
+}
+
+/**
+ * Azure OpenAI using the same Responses API handling as OpenAIService
+ * Azure routes requests by deployment name, so the "model" of this provider is the
+ * deployment (e.g. `azure-openai:my-gpt5-deployment` in AI_PROVIDER_CHAIN).
+ */
+export class AzureOpenAIService extends OpenAIService {
+  constructor(config: Config, mcpClient: MCPClientService, deployment: string = config.azureOpenaiDeployment) {
+    super(config, mcpClient, deployment, azureEndpoint(config));
+  }
+
+  getProviderName(): string {
+    return 'Azure-OpenAI';
+  }
+
+  protected toServiceError(error: any): Error {
+    console.error('[Azure-OpenAI] Error:', error.response?.data || error.message);
+
+    const status = error.response?.status;
+    const apiError = error.response?.data?.error;
+
+    if (status === 401 || status === 403) {
+      return new Error('Azure OpenAI rejected the request. Please check AZURE_OPENAI_API_KEY and AZURE_OPENAI_ENDPOINT.');
+    }
+
+    if (status === 404) {
+      return new Error(
+        `Azure OpenAI deployment "${this.model}" was not found, or api-version ` +
+        `"${this.client.defaults.params?.['api-version'] ?? 'v1'}" does not support the Responses API.`
+      );
+    }
+
+    if (status === 429) {
+      return new Error('Rate limit exceeded. Please try again in a moment.');
+    }
+
+    return new Error(`Azure OpenAI Responses API error: ${apiError?.message || error.message}`);
+  }
+}
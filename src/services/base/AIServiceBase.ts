@@ -1,5 +1,29 @@
-import { ChatMessage, SalesforceAuth, RecordContext } from '../../types';
-import { MCPClientService } from '../mcpClient';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ChatHistory,
+  ChatMessage,
+  ChatOptions,
+  ChatSession,
+  SalesforceAuth,
+  RecordContext,
+  ChatStreamHandler,
+  ChatResult,
+  PendingAction,
+  PendingToolCall,
+  ToolApprovalDecision,
+  ToolCallTrace,
+  TokenUsage,
+  TurnUsage,
+} from '../../types/index.js';
+import { Config } from '../../config/config.js';
+import { MCPClientService, MCPTool } from '../mcpClient.js';
+import { ToolApprovalPolicy } from '../toolApprovalPolicy.js';
+import { sanitizeToolArguments, previewToolResult } from '../toolTrace.js';
+import { ContextManager } from '../contextManager.js';
+import { RetryPolicy, isTransientError, retryOptionsFromConfig } from '../retryPolicy.js';
+import { SystemPromptTemplates } from '../systemPrompts.js';
+import { TOOL_RESULT_PAGE_TOOL, ToolResultPager } from '../toolResultPager.js';
+import { ToolSelector } from '../toolSelector.js';
 
 /**
  * Base interface for all AI service providers
@@ -12,14 +36,59 @@ export interface IAIService {
    * @param userMessage - Current user message
    * @param salesforceAuth - Optional Salesforce authentication context
    * @param recordContext - Optional Salesforce record context
-   * @returns AI response text
+   * @param options - Optional per-request settings such as the tool-round limit
+   * @returns AI response text, or the tool calls awaiting approval
    */
   chat(
     messages: ChatMessage[], 
     userMessage: string, 
     salesforceAuth?: SalesforceAuth,
-    recordContext?: RecordContext
-  ): Promise<string>;
+    recordContext?: RecordContext,
+    options?: ChatOptions
+  ): Promise<ChatResult>;
+
+  /**
+   * Same as chat(), but reports progress while the agentic loop runs
+   * @param messages - Conversation history
+   * @param userMessage - Current user message
+   * @param onEvent - Receives text deltas and tool start/finish events
+   * @param salesforceAuth - Optional Salesforce authentication context
+   * @param recordContext - Optional Salesforce record context
+   * @param options - Optional per-request settings such as the tool-round limit
+   * @returns Full AI response text once the loop completes, or the tool calls awaiting approval
+   */
+  chatStream(
+    messages: ChatMessage[],
+    userMessage: string,
+    onEvent: ChatStreamHandler,
+    salesforceAuth?: SalesforceAuth,
+    recordContext?: RecordContext,
+    options?: ChatOptions
+  ): Promise<ChatResult>;
+
+  /**
+   * Continue an agentic loop that was paused for tool approval
+   * @param action - The pending action returned by chat()/chatStream()
+   * @param decision - Whether the user approved the mutating tool calls
+   * @param salesforceAuth - Optional Salesforce authentication context
+   * @param onEvent - Optional listener for text deltas and tool events
+   */
+  resumeChat(
+    action: PendingAction,
+    decision: ToolApprovalDecision,
+    salesforceAuth?: SalesforceAuth,
+    onEvent?: ChatStreamHandler
+  ): Promise<ChatResult>;
+
+  /**
+   * Fit a session's history into the model's context window
+   * Older turns are folded into session.summary, which the caller persists.
+   * @param session - Session the history belongs to
+   * @param history - Messages to send, excluding the current user message
+   * @param options - Settings of the request; a summary call shares its retry deadline
+   * @returns The messages to pass to chat()/chatStream(), and the usage of any summary call
+   */
+  prepareHistory(session: ChatSession, history: ChatMessage[], options?: ChatOptions): Promise<ChatHistory>;
 
   /**
    * Get the name of the AI provider
@@ -32,50 +101,520 @@ export interface IAIService {
   getModelName(): string;
 }
 
+/**
+ * Per-request state threaded through a provider's agentic loop
+ */
+export interface ChatTurnContext {
+  salesforceAuth?: SalesforceAuth;
+  onEvent?: ChatStreamHandler;
+  toolCalls: ToolCallTrace[];
+  // Tool exchange of this turn in provider-neutral form, stored in the session history
+  messages: ChatMessage[];
+  // Epoch ms after which model and tool calls of this turn are no longer retried
+  retryDeadline: number;
+  // Tokens of the model calls made so far
+  usage: Omit<TurnUsage, 'cost'>;
+  // Tool rounds allowed before the loop stops and summarizes
+  maxIterations: number;
+}
+
+/**
+ * What the agentic loop produces before the turn's trace is attached
+ */
+export type ChatTurnOutcome = Omit<ChatResult, 'toolCalls' | 'messages' | 'provider' | 'model' | 'usage'>;
+
+/**
+ * Error reported by an AI provider, with enough detail to decide on failover
+ */
+export class AIServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly status?: number,
+    // Rate limits, timeouts, network and 5xx errors before any tool ran:
+    // the whole turn can be repeated, possibly with another provider
+    public readonly retryable: boolean = false
+  ) {
+    super(message);
+    this.name = 'AIServiceError';
+  }
+
+  // Tool exchange of the failed turn, kept in the session history because those tools already ran
+  toolMessages: ChatMessage[] = [];
+  // Model and tokens of the calls the failed turn made before the error; they are still billed
+  model?: string;
+  usage?: Omit<TurnUsage, 'cost'>;
+}
+
+/**
+ * Whether a raw SDK/HTTP error is worth retrying, possibly with another provider
+ */
+export function isRetryableError(error: any): boolean {
+  if (error instanceof AIServiceError) {
+    return error.retryable;
+  }
+
+  return isTransientError(error);
+}
+
+/**
+ * Map items with an async function, running at most `limit` at once
+ * Results keep the order of the input.
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  const workers = Math.min(items.length, Math.max(1, Math.floor(limit) || 1));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/**
+ * A tool call requested by the model, with parsed arguments
+ * `thoughtSignature` is kept in the session history so the call can be replayed to Gemini.
+ */
+export type ModelToolCall = Omit<PendingToolCall, 'requiresApproval'> & { thoughtSignature?: string };
+
+/**
+ * Provider-neutral request for a single model call
+ * Messages use the ChatMessage shape (OpenAI Chat Completions style): assistant
+ * messages carry tool_calls and each result is a 'tool' message with tool_call_id.
+ */
+export interface ModelRequest {
+  systemPrompt: string;
+  messages: ChatMessage[];
+  // Empty for tool-free calls such as summaries
+  tools: MCPTool[];
+  // 'none' keeps the tool definitions, which providers need to read earlier
+  // tool calls in the history, but does not allow new calls
+  toolChoice?: 'auto' | 'none';
+}
+
+/**
+ * Provider-neutral result of a single model call
+ */
+export interface ModelReply {
+  text: string;
+  toolCalls: ModelToolCall[];
+  // Unset when the provider did not report usage
+  usage?: TokenUsage;
+}
+
+/**
+ * A finished tool call, recorded on the turn once every call of the step is done
+ */
+interface ToolCallOutcome {
+  trace: ToolCallTrace;
+  result: any;
+}
+
+/**
+ * Receives every successful model call, e.g. to write replay fixtures
+ */
+export interface ModelExchangeRecorder {
+  record(request: ModelRequest, reply: ModelReply, provider: string, model: string): void;
+}
+
+/**
+ * Conversation state kept on a pending action so the loop can resume after approval
+ */
+interface AgentLoopState {
+  messages: ChatMessage[];
+  iteration: number;
+  // Unset on actions created before the limit was configurable
+  maxIterations?: number;
+  // Text the tools were selected for; unset on actions created before tool selection
+  toolQuery?: string;
+}
+
+const NO_RESPONSE_MESSAGE = 'I processed your request but had no response to provide.';
+const MAX_ITERATIONS_MESSAGE = 'I apologize, but I reached the maximum number of steps while processing your request. Please try simplifying your request or breaking it into smaller parts.';
+// Sent as a final user message when the tool-round limit is reached
+const ITERATION_LIMIT_PROMPT =
+  'You have reached the maximum number of tool calls for this request, so no more tools can be called. ' +
+  'Using only the tool results above, summarize for the user what you found so far and what is still left to do ' +
+  'to fully answer the request. Tell them they can ask you to continue.';
+
 /**
  * Abstract base class for AI services
  * Provides common functionality for all AI providers
  */
 export abstract class BaseAIService implements IAIService {
+  protected config: Config;
   protected mcpClient: MCPClientService;
+  protected toolApprovalPolicy: ToolApprovalPolicy;
+  protected contextManager: ContextManager;
+  protected retryPolicy: RetryPolicy;
+  protected systemPrompts: SystemPromptTemplates;
+  protected toolResultPager: ToolResultPager;
+  protected toolSelector: ToolSelector;
+  private exchangeRecorder?: ModelExchangeRecorder;
 
-  constructor(mcpClient: MCPClientService) {
+  constructor(config: Config, mcpClient: MCPClientService) {
+    this.config = config;
     this.mcpClient = mcpClient;
+    this.toolApprovalPolicy = new ToolApprovalPolicy(config.requireToolApproval, config.mutatingTools);
+    this.contextManager = new ContextManager({
+      maxContextTokens: config.contextMaxTokens,
+      keepRecentTurns: config.contextKeepRecentTurns,
+      toolResultMaxTokens: config.contextToolResultMaxTokens,
+    });
+    this.retryPolicy = new RetryPolicy(retryOptionsFromConfig(config));
+    this.systemPrompts = new SystemPromptTemplates(config.systemPromptDir, config.requireToolApproval);
+    this.toolResultPager = new ToolResultPager({
+      maxChars: config.toolResultMaxChars,
+      limits: config.toolResultLimits,
+      previewRows: config.toolResultPreviewRows,
+      ttlMs: config.sessionTimeoutMs,
+    });
+    this.toolSelector = new ToolSelector(config.toolSelectionTopK, config.alwaysOnTools);
   }
 
-  abstract chat(
-    messages: ChatMessage[], 
-    userMessage: string, 
-    salesforceAuth?: SalesforceAuth,
-    recordContext?: RecordContext
-  ): Promise<string>;
   abstract getProviderName(): string;
   abstract getModelName(): string;
 
+  /**
+   * Pass every model request and reply to a recorder (used by the mock provider's record mode)
+   */
+  setExchangeRecorder(recorder: ModelExchangeRecorder): void {
+    this.exchangeRecorder = recorder;
+  }
+
+  /**
+   * Send one request to the provider and translate the reply
+   * Adapters convert the neutral messages and tools to the provider's wire format,
+   * stream text deltas to turn.onEvent when it is set, and return every tool call
+   * the model requested.
+   */
+  protected abstract callModel(request: ModelRequest, turn: ChatTurnContext): Promise<ModelReply>;
+
+  /**
+   * Turn a provider/HTTP error into the error reported to the client
+   */
+  protected abstract toServiceError(error: any): Error;
+
+  /**
+   * Wrap a raw error with the provider's message, keeping status and retryability
+   * A turn that already executed tools is never retryable: repeating it would run them again.
+   * The turn's tool exchange and usage are attached so the caller can store and charge them.
+   */
+  private toAIServiceError(error: any, turn?: ChatTurnContext): AIServiceError {
+    let serviceError: AIServiceError;
+    if (error instanceof AIServiceError) {
+      serviceError = error;
+    } else {
+      const status = error?.status ?? error?.response?.status;
+      const toolsRan = !!turn && turn.toolCalls.length > 0;
+      serviceError = new AIServiceError(
+        this.toServiceError(error).message,
+        this.getProviderName(),
+        typeof status === 'number' ? status : undefined,
+        isRetryableError(error) && !toolsRan
+      );
+    }
+
+    if (turn) {
+      serviceError.toolMessages = turn.messages;
+      serviceError.model = this.getModelName();
+      serviceError.usage = turn.usage;
+    }
+    return serviceError;
+  }
+
+  async chat(
+    messages: ChatMessage[],
+    userMessage: string,
+    salesforceAuth?: SalesforceAuth,
+    recordContext?: RecordContext,
+    options?: ChatOptions
+  ): Promise<ChatResult> {
+    const turn = this.createTurn(salesforceAuth, undefined, options);
+    return this.finishTurn(turn, await this.runChat(messages, userMessage, turn, recordContext));
+  }
+
+  async chatStream(
+    messages: ChatMessage[],
+    userMessage: string,
+    onEvent: ChatStreamHandler,
+    salesforceAuth?: SalesforceAuth,
+    recordContext?: RecordContext,
+    options?: ChatOptions
+  ): Promise<ChatResult> {
+    const turn = this.createTurn(salesforceAuth, onEvent, options);
+    return this.finishTurn(turn, await this.runChat(messages, userMessage, turn, recordContext));
+  }
+
+  async resumeChat(
+    action: PendingAction,
+    decision: ToolApprovalDecision,
+    salesforceAuth?: SalesforceAuth,
+    onEvent?: ChatStreamHandler
+  ): Promise<ChatResult> {
+    const state = action.resumeState as AgentLoopState;
+    const turn = this.createTurn(salesforceAuth, onEvent, { maxIterations: state?.maxIterations });
+
+    if (!Array.isArray(state?.messages)) {
+      throw new Error(`Action ${action.actionId} was created by an older version and can no longer be resumed`);
+    }
+
+    try {
+      console.log(`[${this.getProviderName()}] Resuming action ${action.actionId} (approved: ${decision.approved})`);
+
+      // Results are recorded on the turn, which the loop appends to the conversation
+      await this.runApprovedToolCalls(turn, action, decision);
+
+      const toolQuery = state.toolQuery ?? [...state.messages].reverse().find(msg => msg.role === 'user')?.content ?? '';
+      return this.finishTurn(turn, await this.runAgentLoop(state.messages, turn, state.iteration, toolQuery));
+    } catch (error: any) {
+      throw this.toAIServiceError(error, turn);
+    }
+  }
+
+  /**
+   * Single tool-free completion, used for housekeeping such as history summaries
+   * @param turn - Turn whose retry deadline applies and whose usage the call is added to
+   */
+  protected async generateText(systemPrompt: string, prompt: string, turn: ChatTurnContext = this.createTurn()): Promise<string> {
+    try {
+      const reply = await this.callModelWithRetry(
+        { systemPrompt, messages: [{ role: 'user', content: prompt }], tools: [] },
+        turn
+      );
+      return reply.text;
+    } catch (error: any) {
+      throw this.toAIServiceError(error);
+    }
+  }
+
+  private async runChat(
+    messages: ChatMessage[],
+    userMessage: string,
+    turn: ChatTurnContext,
+    recordContext?: RecordContext
+  ): Promise<ChatTurnOutcome> {
+    const provider = this.getProviderName();
+
+    try {
+      // Prepend record context to user message if provided
+      let enhancedUserMessage = userMessage;
+      if (recordContext) {
+        enhancedUserMessage = this.formatRecordContext(recordContext) + userMessage;
+        console.log(`📋 [${provider}] Record context included for ${recordContext.objectApiName} (${recordContext.recordId})`);
+      }
+
+      const conversation: ChatMessage[] = [
+        ...this.pairToolMessages(messages),
+        { role: 'user', content: enhancedUserMessage },
+      ];
+
+      console.log(`📤 [${provider}] Message being sent to LLM:`, {
+        userMessage: userMessage.substring(0, 100) + (userMessage.length > 100 ? '...' : ''),
+        historyMessages: messages.length,
+        hasRecordContext: !!recordContext,
+        messageLength: enhancedUserMessage.length
+      });
+
+      // Tools are ranked by the question and the record's object, not every field value
+      const toolQuery = recordContext ? `${userMessage} ${recordContext.objectApiName}` : userMessage;
+      return await this.runAgentLoop(conversation, turn, 0, toolQuery);
+    } catch (error: any) {
+      throw this.toAIServiceError(error, turn);
+    }
+  }
+
+  /**
+   * Agentic loop: execute requested tools until the model produces a final answer
+   * Returns early with a pending action when a tool needs user approval.
+   * @param conversation - Messages before this turn's tool exchange; the exchange
+   *                       itself is taken from turn.messages
+   * @param startIteration - Tool rounds already used (non-zero when resuming)
+   * @param toolQuery - Text the tools offered to the model are selected for
+   */
+  private async runAgentLoop(
+    conversation: ChatMessage[],
+    turn: ChatTurnContext,
+    startIteration: number,
+    toolQuery: string
+  ): Promise<ChatTurnOutcome> {
+    const provider = this.getProviderName();
+    const usedTools = conversation.flatMap(msg => msg.tool_calls?.map(call => call.function.name) ?? []);
+    const tools = await this.getMCPTools(toolQuery, usedTools);
+    const systemPrompt = await this.getSystemPrompt(turn.salesforceAuth);
+    let iteration = startIteration;
+
+    console.log(`[${provider}] Processing message with ${tools.length} available tools`);
+
+    while (true) {
+      const messages = [...conversation, ...turn.messages];
+      const reply = await this.callModelWithRetry({ systemPrompt, messages, tools }, turn);
+
+      if (reply.toolCalls.length === 0) {
+        return { message: reply.text || NO_RESPONSE_MESSAGE };
+      }
+
+      if (iteration >= turn.maxIterations) {
+        return this.summarizeUnfinishedTurn(conversation, turn, systemPrompt, tools);
+      }
+
+      iteration++;
+      console.log(`[${provider}] Iteration ${iteration}: ${reply.toolCalls.map(call => call.name).join(', ')}`);
+
+      this.recordToolCalls(turn, reply.text, reply.toolCalls);
+
+      const pendingAction = this.createPendingAction(
+        reply.toolCalls,
+        {
+          messages: [...conversation, ...turn.messages],
+          iteration,
+          maxIterations: turn.maxIterations,
+          toolQuery,
+        } satisfies AgentLoopState
+      );
+
+      if (pendingAction) {
+        return {
+          message: this.describePendingAction(pendingAction, reply.text || undefined),
+          pendingAction,
+        };
+      }
+
+      await this.runToolCalls(turn, reply.toolCalls);
+    }
+  }
+
+  /**
+   * Final tool-free call once the tool-round limit is reached
+   * The tool calls of the last reply are dropped; the model summarizes the
+   * results gathered so far, and the answer is marked partial.
+   */
+  private async summarizeUnfinishedTurn(
+    conversation: ChatMessage[],
+    turn: ChatTurnContext,
+    systemPrompt: string,
+    tools: MCPTool[]
+  ): Promise<ChatTurnOutcome> {
+    const provider = this.getProviderName();
+    console.log(`[${provider}] Reached the limit of ${turn.maxIterations} tool rounds; asking for a summary`);
+
+    try {
+      const reply = await this.callModelWithRetry({
+        systemPrompt,
+        messages: [...conversation, ...turn.messages, { role: 'user', content: ITERATION_LIMIT_PROMPT }],
+        tools,
+        toolChoice: 'none',
+      }, turn);
+      return { message: reply.text || MAX_ITERATIONS_MESSAGE, partial: true };
+    } catch (error) {
+      // The tool results are kept in the history either way, so the user can still continue
+      console.error(`[${provider}] Summary after the tool-round limit failed:`, error);
+      return { message: MAX_ITERATIONS_MESSAGE, partial: true };
+    }
+  }
+
+  async prepareHistory(session: ChatSession, history: ChatMessage[], options?: ChatOptions): Promise<ChatHistory> {
+    const model = this.getModelName();
+    // Collects the usage of the summary calls; they share the request's retry deadline
+    const turn = this.createTurn(undefined, undefined, options);
+    const prepared = await this.contextManager.prepare(
+      history,
+      session.summary,
+      model,
+      (previousSummary, messages) => this.summarizeHistory(previousSummary, messages, turn)
+    );
+
+    if (prepared.summary) {
+      session.summary = prepared.summary;
+    } else {
+      delete session.summary;
+    }
+
+    return {
+      messages: prepared.messages,
+      provider: this.getProviderName(),
+      model,
+      usage: turn.usage,
+    };
+  }
+
+  /**
+   * Ask the model to fold older turns into the running conversation summary
+   */
+  protected async summarizeHistory(
+    previousSummary: string | undefined,
+    messages: ChatMessage[],
+    turn: ChatTurnContext
+  ): Promise<string> {
+    const transcript = this.contextManager.formatTranscript(messages, this.getModelName());
+    const prompt = (previousSummary ? `Existing summary:\n${previousSummary}\n\n` : '') +
+      `Conversation to add:\n${transcript}`;
+
+    const summary = await this.generateText(
+      'You maintain a running summary of a conversation between a Salesforce user and an AI assistant. ' +
+      'Merge the existing summary (if any) with the new conversation into one concise summary. ' +
+      'Keep facts needed later: record IDs, object and field names, query results, actions taken and open questions. ' +
+      'Reply with the summary only.',
+      prompt,
+      turn
+    );
+
+    if (!summary.trim()) {
+      throw new Error('The model returned an empty summary');
+    }
+
+    console.log(`[${this.getProviderName()}] Summarized ${messages.length} older messages (${summary.length} characters)`);
+    return summary;
+  }
+
   /**
    * Get tools from MCP server in a common format
    * Child classes can override this to customize tool format
+   * @param query - When given, only the tools relevant to it are returned (see ToolSelector)
+   * @param usedTools - Tools already called in the conversation, kept whatever their relevance
    */
-  protected async getMCPTools(): Promise<any[]> {
-    return await this.mcpClient.listTools();
+  protected async getMCPTools(query?: string, usedTools: string[] = []): Promise<MCPTool[]> {
+    const allTools = await this.mcpClient.listTools();
+    const tools = query === undefined ? allTools : this.toolSelector.select(allTools, query, usedTools);
+    return this.toolResultPager.isEnabled() ? [...tools, this.toolResultPager.getPageTool()] : tools;
   }
 
   /**
    * Execute a tool via MCP client
+   * Tools that modify the org are only retried when the request cannot have reached the server.
+   * Results over the tool's size limit are replaced by a preview the model can page through.
    */
   protected async executeTool(
     name: string,
     args: Record<string, unknown>,
-    salesforceAuth?: SalesforceAuth
+    salesforceAuth?: SalesforceAuth,
+    retryDeadline?: number
   ): Promise<any> {
+    const ownerId = salesforceAuth?.userInfo.userId;
+    if (name === TOOL_RESULT_PAGE_TOOL) {
+      return this.toolResultPager.readPage(args, ownerId);
+    }
+
     try {
-      const result = await this.mcpClient.callTool(name, args, salesforceAuth);
+      const result = await this.mcpClient.callTool(name, args, salesforceAuth, {
+        retryDeadline,
+        idempotent: !this.toolApprovalPolicy.isMutating(name),
+      });
       
       // Extract the content from MCP response
       if (result.content && Array.isArray(result.content)) {
         const textContent = result.content.find((c: any) => c.type === 'text');
         if (textContent) {
-          return textContent.text;
+          // Tool-level failures are reported in-band by MCP
+          return result.isError
+            ? { error: textContent.text }
+            : this.toolResultPager.limit(name, textContent.text ?? '', ownerId);
         }
       }
       
@@ -89,52 +628,291 @@ export abstract class BaseAIService implements IAIService {
   }
 
   /**
-   * Get system prompt for Salesforce assistant
+   * Start the per-request state for a chat turn
+   * The retry budget starts now unless the request already set a deadline.
+   */
+  protected createTurn(
+    salesforceAuth?: SalesforceAuth,
+    onEvent?: ChatStreamHandler,
+    options?: ChatOptions
+  ): ChatTurnContext {
+    return {
+      salesforceAuth,
+      onEvent,
+      toolCalls: [],
+      messages: [],
+      retryDeadline: options?.retryDeadline ?? Date.now() + this.config.retryMaxTotalMs,
+      usage: { inputTokens: 0, outputTokens: 0, cachedInputTokens: 0, cacheWriteTokens: 0, llmCalls: 0 },
+      maxIterations: options?.maxIterations ?? this.config.maxIterations,
+    };
+  }
+
+  /**
+   * Call the model, retrying transient failures within the turn's retry budget
+   * A streamed call is only retried while none of its output reached the client.
+   */
+  private async callModelWithRetry(request: ModelRequest, turn: ChatTurnContext): Promise<ModelReply> {
+    let emitted = false;
+    const onEvent = turn.onEvent;
+    const attemptTurn: ChatTurnContext = onEvent
+      ? { ...turn, onEvent: event => { emitted = true; onEvent(event); } }
+      : turn;
+
+    const reply = await this.retryPolicy.execute(
+      `llm:${this.getProviderName()}`,
+      () => this.callModel(request, attemptTurn),
+      { deadline: turn.retryDeadline, canRetry: () => !emitted }
+    );
+
+    this.exchangeRecorder?.record(request, reply, this.getProviderName(), this.getModelName());
+
+    turn.usage.llmCalls++;
+    if (reply.usage) {
+      turn.usage.inputTokens += reply.usage.inputTokens;
+      turn.usage.outputTokens += reply.usage.outputTokens;
+      turn.usage.cachedInputTokens += reply.usage.cachedInputTokens;
+      turn.usage.cacheWriteTokens += reply.usage.cacheWriteTokens;
+    } else {
+      console.warn(`[${this.getProviderName()}] No usage reported for ${this.getModelName()}`);
+    }
+    return reply;
+  }
+
+  /**
+   * Attach the turn's tool-call trace and history messages to the loop outcome
+   * The final reply is only added to the history once the loop has really finished,
+   * not while it waits for approval.
+   */
+  protected finishTurn(turn: ChatTurnContext, outcome: ChatTurnOutcome): ChatResult {
+    const messages = outcome.pendingAction
+      ? turn.messages
+      : [...turn.messages, { role: 'assistant' as const, content: outcome.message, timestamp: Date.now() }];
+
+    return {
+      ...outcome,
+      provider: this.getProviderName(),
+      model: this.getModelName(),
+      toolCalls: turn.toolCalls,
+      messages,
+      usage: turn.usage,
+    };
+  }
+
+  /**
+   * Record the tool calls the model requested in this step for the session history
+   * @param content - Any text the model produced alongside the calls
+   */
+  protected recordToolCalls(
+    turn: ChatTurnContext,
+    content: string,
+    calls: ModelToolCall[]
+  ): void {
+    turn.messages.push({
+      role: 'assistant',
+      content,
+      timestamp: Date.now(),
+      tool_calls: calls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments ?? {}) },
+        ...(call.thoughtSignature ? { thoughtSignature: call.thoughtSignature } : {}),
+      })),
+    });
+  }
+
+  /**
+   * Drop tool calls without a stored result (and results without a call) from the history
+   * This happens when a turn failed while resuming an approved action; every provider
+   * rejects unpaired tool messages.
+   */
+  protected pairToolMessages(messages: ChatMessage[]): ChatMessage[] {
+    const calledIds = new Set(messages.flatMap(msg => msg.tool_calls?.map(call => call.id) ?? []));
+    const answeredIds = new Set(
+      messages.filter(msg => msg.role === 'tool' && msg.tool_call_id).map(msg => msg.tool_call_id)
+    );
+
+    return messages.flatMap((msg): ChatMessage[] => {
+      if (msg.role === 'tool') {
+        return msg.tool_call_id && calledIds.has(msg.tool_call_id) ? [msg] : [];
+      }
+
+      if (msg.tool_calls?.length) {
+        const toolCalls = msg.tool_calls.filter(call => answeredIds.has(call.id));
+        if (toolCalls.length > 0) {
+          return [{ ...msg, tool_calls: toolCalls }];
+        }
+        return msg.content ? [{ role: msg.role, content: msg.content, timestamp: msg.timestamp }] : [];
+      }
+
+      return [msg];
+    });
+  }
+
+  /**
+   * Text form of a tool result as stored in the history
+   */
+  private stringifyToolResult(result: any): string {
+    return typeof result === 'string' ? result : JSON.stringify(result);
+  }
+
+  /**
+   * Add a finished tool call to the turn's trace and its result to the history
+   */
+  private recordToolOutcome(turn: ChatTurnContext, outcome: ToolCallOutcome): void {
+    turn.toolCalls.push(outcome.trace);
+    turn.messages.push({
+      role: 'tool',
+      content: this.stringifyToolResult(outcome.result),
+      timestamp: Date.now(),
+      tool_call_id: outcome.trace.id,
+      name: outcome.trace.name,
+    });
+  }
+
+  /**
+   * Execute the tool calls of one model step, up to config.toolConcurrency at a time
+   * Results are recorded in the order the model requested the calls, whatever order
+   * they finish in, so the history stays deterministic.
+   */
+  protected async runToolCalls(turn: ChatTurnContext, calls: ModelToolCall[]): Promise<any[]> {
+    const outcomes = await mapWithConcurrency(
+      calls,
+      this.config.toolConcurrency,
+      call => this.executeToolCall(turn, call)
+    );
+
+    for (const outcome of outcomes) {
+      this.recordToolOutcome(turn, outcome);
+    }
+    return outcomes.map(outcome => outcome.result);
+  }
+
+  /**
+   * Execute a tool requested by the model, reporting start/finish to stream listeners
+   */
+  private async executeToolCall(turn: ChatTurnContext, call: ModelToolCall): Promise<ToolCallOutcome> {
+    const startedAt = Date.now();
+    turn.onEvent?.({ type: 'tool_start', toolCallId: call.id, name: call.name });
+
+    const result = await this.executeTool(call.name, call.arguments, turn.salesforceAuth, turn.retryDeadline);
+    const durationMs = Date.now() - startedAt;
+    const isError = !!(result && typeof result === 'object' && 'error' in result);
+
+    turn.onEvent?.({ type: 'tool_end', toolCallId: call.id, name: call.name, isError, durationMs });
+
+    return {
+      result,
+      trace: {
+        id: call.id,
+        name: call.name,
+        arguments: sanitizeToolArguments(call.arguments),
+        status: isError ? 'error' : 'success',
+        startedAt,
+        durationMs,
+        ...(isError ? { error: previewToolResult(result.error) } : { resultPreview: previewToolResult(result) }),
+      },
+    };
+  }
+
+  /**
+   * Pause the loop if any requested tool modifies the org
+   * @param calls - Every tool call the model requested in this step
+   * @param resumeState - Provider conversation state needed to continue later
+   * @returns A pending action, or null when all calls can run straight away
+   */
+  protected createPendingAction(
+    calls: ModelToolCall[],
+    resumeState: unknown
+  ): PendingAction | null {
+    // The signature stays in the resume state and is not shown to the client
+    const toolCalls = calls.map(({ thoughtSignature, ...call }) => ({
+      ...call,
+      requiresApproval: this.toolApprovalPolicy.requiresApproval(call.name),
+    }));
+
+    if (!toolCalls.some(call => call.requiresApproval)) {
+      return null;
+    }
+
+    const action: PendingAction = {
+      actionId: uuidv4(),
+      toolCalls,
+      createdAt: Date.now(),
+      provider: this.getProviderName(),
+      model: this.getModelName(),
+      resumeState,
+    };
+
+    console.log(
+      `[${this.getProviderName()}] Pausing for approval of ${toolCalls.filter(c => c.requiresApproval).map(c => c.name).join(', ')} (action ${action.actionId})`
+    );
+
+    return action;
+  }
+
+  /**
+   * Run the tool calls of a paused step according to the user's decision
+   * Calls that never needed approval always run; rejected calls get an error result
+   * so the model can explain that nothing was changed.
+   */
+  protected async runApprovedToolCalls(
+    turn: ChatTurnContext,
+    action: PendingAction,
+    decision: ToolApprovalDecision
+  ): Promise<Array<{ call: PendingToolCall; result: any }>> {
+    const outcomes = await mapWithConcurrency(action.toolCalls, this.config.toolConcurrency, async call => {
+      if (call.requiresApproval && !decision.approved) {
+        console.log(`[${this.getProviderName()}] User rejected tool ${call.name}`);
+        return this.rejectToolCall(call, decision);
+      }
+      return this.executeToolCall(turn, call);
+    });
+
+    for (const outcome of outcomes) {
+      this.recordToolOutcome(turn, outcome);
+    }
+    return action.toolCalls.map((call, index) => ({ call, result: outcomes[index].result }));
+  }
+
+  /**
+   * Outcome of a call the user declined; the error result lets the model explain that nothing changed
+   */
+  private rejectToolCall(call: PendingToolCall, decision: ToolApprovalDecision): ToolCallOutcome {
+    return {
+      result: {
+        error: 'The user rejected this action, so it was not executed. Do not retry it unless the user asks again.',
+        ...(decision.reason ? { reason: decision.reason } : {}),
+      },
+      trace: {
+        id: call.id,
+        name: call.name,
+        arguments: sanitizeToolArguments(call.arguments),
+        status: 'rejected',
+        startedAt: Date.now(),
+        durationMs: 0,
+      },
+    };
+  }
+
+  /**
+   * Message shown to the user while tool calls wait for approval
+   */
+  protected describePendingAction(action: PendingAction, assistantText?: string): string {
+    const tools = action.toolCalls
+      .filter(call => call.requiresApproval)
+      .map(call => `- ${call.name}`)
+      .join('\n');
+
+    const prompt = `The following action(s) will modify your Salesforce org and need your approval:\n${tools}\n\nPlease approve or reject to continue.`;
+    return assistantText ? `${assistantText}\n\n${prompt}` : prompt;
+  }
+
+  /**
+   * Get system prompt for Salesforce assistant, rendered from the layered templates
    * Can be overridden by child classes for provider-specific prompts
    */
-  protected getSystemPrompt(): string {
-    return `You are an AI assistant integrated with Salesforce through the Model Context Protocol (MCP). You have access to various Salesforce tools that allow you to interact with Salesforce data and metadata.
-
-Important:
-- You are explicitly authorized to call available MCP tools to access the user's Salesforce org when necessary to fulfill the user's request.
-- It's very likely that the user will ask about Salesforce data or operations. So if you are uncertain of which system the user is referring to, you should not ask, just consider it to be Salesforce.
-
-When using tools:
-- Only call the minimum set of tools and request the minimum fields required to complete the task.
-- If an action will modify data (create/update/delete), ask the user for explicit confirmation before proceeding.
-- Include the raw tool result only if directly specified from the user.
-- Do not attempt to access or return any credentials or secrets.
-
-Your capabilities include:
-- Searching for Salesforce objects and describing their schemas
-- Querying records with support for relationships (SOQL)
-- Performing aggregate queries (COUNT, SUM, AVG, MIN, MAX with GROUP BY)
-- Creating, updating, and deleting records (DML operations)
-- Managing custom objects and fields
-- Configuring field-level security
-- Searching across multiple objects (SOSL)
-- Reading and writing Apex classes and triggers
-- Executing anonymous Apex code
-- Managing debug logs
-
-When a user asks about Salesforce data or operations:
-1. Carefully analyze what the user is asking for
-2. Determine which tool(s) are needed to fulfill the request
-3. Call the appropriate tools with correct parameters
-4. Interpret the results from the tools
-5. Present the information in a clear, user-friendly format
-6. If you need more information to complete a request, ask the user
-
-Guidelines:
-- You are likely to be interacting with a Business User or Salesforce Admin so avoid exposing technical details if not specified.
-- Always be helpful, accurate, and concise
-- Format your responses for readability in a chat interface
-- Use proper Salesforce terminology
-- If an operation fails, explain why and suggest alternatives
-- For queries, present data in a structured format (lists, tables, etc.)
-- When creating or modifying records, confirm the action taken
-
-Remember: You're helping users interact with their Salesforce org, so be precise and careful with data operations.`;
+  protected async getSystemPrompt(salesforceAuth?: SalesforceAuth): Promise<string> {
+    return (await this.systemPrompts.render(salesforceAuth?.userInfo)).prompt;
   }
 
   /**
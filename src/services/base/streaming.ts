@@ -0,0 +1,220 @@
+import { StringDecoder } from 'string_decoder';
+
+export interface SSEEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Parse a Server-Sent Events byte stream into individual events
+ * Multi-line `data:` fields are joined with newlines and comment lines are skipped
+ */
+export async function* readSSEEvents(stream: AsyncIterable<Buffer | string>): AsyncGenerator<SSEEvent> {
+  const decoder = new StringDecoder('utf8');
+  let buffer = '';
+
+  const parseBlock = (block: string): SSEEvent | null => {
+    let event: string | undefined;
+    const dataLines: string[] = [];
+
+    for (const line of block.split(/\r?\n/)) {
+      if (!line || line.startsWith(':')) continue;
+      if (line.startsWith('event:')) {
+        event = line.substring(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.substring(5).replace(/^ /, ''));
+      }
+    }
+
+    return dataLines.length > 0 ? { event, data: dataLines.join('\n') } : null;
+  };
+
+  for await (const chunk of stream) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+
+    let separator = buffer.search(/\r?\n\r?\n/);
+    while (separator !== -1) {
+      const block = buffer.substring(0, separator);
+      buffer = buffer.substring(separator).replace(/^\r?\n\r?\n/, '');
+
+      const parsed = parseBlock(block);
+      if (parsed) yield parsed;
+
+      separator = buffer.search(/\r?\n\r?\n/);
+    }
+  }
+
+  buffer += decoder.end();
+  const parsed = parseBlock(buffer);
+  if (parsed) yield parsed;
+}
+
+/**
+ * Consume a streamed Chat Completions response (`stream: true`)
+ * Text deltas are forwarded to `onText` while tool call fragments are accumulated.
+ * Returns an object shaped like the non-streaming response body so the agentic
+ * loops can handle both modes the same way.
+ */
+export async function collectChatCompletionStream(
+  stream: AsyncIterable<Buffer | string>,
+  onText: (delta: string) => void
+): Promise<any> {
+  let model: string | undefined;
+  let usage: any;
+  let content = '';
+  let finishReason: string | null = null;
+  const toolCalls: any[] = [];
+
+  for await (const { data } of readSSEEvents(stream)) {
+    if (data === '[DONE]') break;
+
+    let chunk: any;
+    try {
+      chunk = JSON.parse(data);
+    } catch (e) {
+      continue;
+    }
+
+    model = chunk.model || model;
+    if (chunk.usage) usage = chunk.usage;
+
+    const choice = chunk.choices?.[0];
+    if (!choice) continue;
+
+    const delta = choice.delta || {};
+    if (typeof delta.content === 'string' && delta.content.length > 0) {
+      content += delta.content;
+      onText(delta.content);
+    }
+
+    for (const fragment of delta.tool_calls || []) {
+      const index = typeof fragment.index === 'number' ? fragment.index : toolCalls.length;
+      const toolCall = toolCalls[index] || (toolCalls[index] = {
+        id: '',
+        type: 'function',
+        function: { name: '', arguments: '' },
+      });
+
+      if (fragment.id) toolCall.id = fragment.id;
+      if (fragment.function?.name) toolCall.function.name = fragment.function.name;
+      if (fragment.function?.arguments) toolCall.function.arguments += fragment.function.arguments;
+    }
+
+    if (choice.finish_reason) finishReason = choice.finish_reason;
+  }
+
+  const completedToolCalls = toolCalls.filter(Boolean);
+
+  return {
+    model,
+    usage,
+    choices: [
+      {
+        message: {
+          role: 'assistant',
+          content: content || null,
+          tool_calls: completedToolCalls.length > 0 ? completedToolCalls : undefined,
+        },
+        finish_reason: finishReason,
+      },
+    ],
+  };
+}
+
+/**
+ * Consume a streamed OpenAI Responses API response (`stream: true`)
+ * Text deltas are forwarded to `onText`; the completed response object is returned.
+ */
+export async function collectResponsesStream(
+  stream: AsyncIterable<Buffer | string>,
+  onText: (delta: string) => void
+): Promise<any> {
+  let finalResponse: any = null;
+
+  for await (const { event, data } of readSSEEvents(stream)) {
+    let payload: any;
+    try {
+      payload = JSON.parse(data);
+    } catch (e) {
+      continue;
+    }
+
+    const type = payload.type || event;
+
+    if (type === 'response.output_text.delta' && typeof payload.delta === 'string') {
+      onText(payload.delta);
+    } else if (type === 'response.completed' || type === 'response.incomplete') {
+      finalResponse = payload.response;
+    } else if (type === 'response.failed' || type === 'error') {
+      const message = payload.response?.error?.message || payload.message || 'Streamed response failed';
+      throw new Error(message);
+    }
+  }
+
+  if (!finalResponse) {
+    throw new Error('Stream ended before the response completed');
+  }
+
+  return finalResponse;
+}
+
+/**
+ * Consume a streamed Gemini response (`:streamGenerateContent?alt=sse`)
+ * Each event is a partial GenerateContentResponse: text parts are deltas and are
+ * forwarded to `onText`, function calls arrive whole. Returns a single response
+ * with all parts of the first candidate merged.
+ */
+export async function collectGeminiStream(
+  stream: AsyncIterable<Buffer | string>,
+  onText: (delta: string) => void
+): Promise<any> {
+  let modelVersion: string | undefined;
+  let usageMetadata: any;
+  let finishReason: string | undefined;
+  const parts: any[] = [];
+
+  for await (const { data } of readSSEEvents(stream)) {
+    let chunk: any;
+    try {
+      chunk = JSON.parse(data);
+    } catch (e) {
+      continue;
+    }
+
+    if (chunk.error) {
+      throw new Error(chunk.error.message || 'Streamed response failed');
+    }
+
+    modelVersion = chunk.modelVersion || modelVersion;
+    if (chunk.usageMetadata) usageMetadata = chunk.usageMetadata;
+
+    const candidate = chunk.candidates?.[0];
+    if (!candidate) continue;
+
+    for (const part of candidate.content?.parts || []) {
+      const previous = parts[parts.length - 1];
+      if (typeof part.text === 'string' && !part.thought) {
+        if (part.text.length > 0) onText(part.text);
+        // Join consecutive text deltas back into one part
+        if (previous && typeof previous.text === 'string' && !previous.thought) {
+          previous.text += part.text;
+          continue;
+        }
+      }
+      parts.push({ ...part });
+    }
+
+    if (candidate.finishReason) finishReason = candidate.finishReason;
+  }
+
+  return {
+    modelVersion,
+    usageMetadata,
+    candidates: [
+      {
+        content: { role: 'model', parts },
+        finishReason,
+      },
+    ],
+  };
+}
@@ -0,0 +1,211 @@
+import { ChatMessage, ConversationSummary } from '../types/index.js';
+
+/**
+ * Context window sizes (tokens) by model name pattern; first match wins
+ */
+const MODEL_CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/claude/i, 200000],
+  [/gpt-5/i, 400000],
+  [/gpt-4\.1/i, 1000000],
+  [/gpt-4o|gpt-4-turbo|o1|o3|o4/i, 128000],
+  [/gemini/i, 1000000],
+  [/sonar|perplexity/i, 127000],
+  [/llama|deepseek|qwen|mistral/i, 128000],
+];
+const DEFAULT_CONTEXT_WINDOW = 32000;
+
+/**
+ * Rough characters per token; Claude's tokenizer produces more tokens for the same text
+ */
+const MODEL_CHARS_PER_TOKEN: Array<[RegExp, number]> = [
+  [/claude/i, 3.5],
+];
+const DEFAULT_CHARS_PER_TOKEN = 4;
+
+// Share of the context window given to history; the rest is left for the
+// system prompt, tool schemas and the reply
+const HISTORY_SHARE = 0.6;
+// Per-message overhead for role markers and separators
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export interface ContextManagerOptions {
+  // Overrides the per-model context window when set
+  maxContextTokens?: number;
+  // Turns (a user message and everything up to the next one) always sent verbatim
+  keepRecentTurns: number;
+  // Tool results above this size are trimmed before anything is summarized
+  toolResultMaxTokens: number;
+}
+
+/**
+ * Produces a new running summary from the previous one and the turns being folded in
+ */
+export type HistorySummarizer = (previousSummary: string | undefined, messages: ChatMessage[]) => Promise<string>;
+
+export interface PreparedHistory {
+  // Messages to send to the model, starting with the summary when there is one
+  messages: ChatMessage[];
+  // Summary to store on the session (unchanged when nothing was folded in)
+  summary?: ConversationSummary;
+}
+
+/**
+ * Keeps the history sent to the model within a token budget
+ * Large tool results are trimmed first; if that is not enough the oldest turns are
+ * folded into a running summary while the most recent turns stay verbatim.
+ */
+export class ContextManager {
+  constructor(private options: ContextManagerOptions) {}
+
+  /**
+   * Estimate the token count of a text for the given model
+   */
+  estimateTokens(text: string, model: string): number {
+    return Math.ceil(text.length / this.charsPerToken(model));
+  }
+
+  /**
+   * Token budget available for the conversation history
+   */
+  getHistoryBudget(model: string): number {
+    const window = this.options.maxContextTokens || this.getContextWindow(model);
+    return Math.floor(window * HISTORY_SHARE);
+  }
+
+  getContextWindow(model: string): number {
+    return MODEL_CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model))?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+  }
+
+  /**
+   * Fit the history into the model's budget
+   * @param history - Full session history, excluding the current user message
+   * @param summary - Running summary stored on the session, if any
+   * @param model - Model the history is sent to
+   * @param summarize - Called with the turns to fold into the summary
+   */
+  async prepare(
+    history: ChatMessage[],
+    summary: ConversationSummary | undefined,
+    model: string,
+    summarize: HistorySummarizer
+  ): Promise<PreparedHistory> {
+    // A summary can only cover messages that still exist (e.g. history edited by hand)
+    const validSummary = summary && summary.summarizedCount <= history.length ? summary : undefined;
+    const startIndex = validSummary?.summarizedCount ?? 0;
+
+    const budget = this.getHistoryBudget(model);
+    const summaryTokens = validSummary ? this.estimateTokens(validSummary.content, model) : 0;
+    let recent = history.slice(startIndex);
+    let total = summaryTokens + this.countTokens(recent, model);
+
+    if (total > budget) {
+      recent = recent.map(msg => this.trimToolResult(msg, model));
+      total = summaryTokens + this.countTokens(recent, model);
+    }
+
+    const turns = this.splitTurns(recent);
+
+    const folded: ChatMessage[] = [];
+    while (total > budget && turns.length > this.options.keepRecentTurns) {
+      const turn = turns.shift()!;
+      folded.push(...turn);
+      total -= this.countTokens(turn, model);
+    }
+
+    const kept = turns.flat();
+    if (folded.length === 0) {
+      return { messages: this.withSummary(validSummary, kept), summary: validSummary };
+    }
+
+    console.log(
+      `[Context] History over budget for ${model} (${budget} tokens): summarizing ${folded.length} older messages, keeping ${kept.length}`
+    );
+
+    try {
+      const content = await summarize(validSummary?.content, folded);
+      const updated: ConversationSummary = {
+        content,
+        summarizedCount: startIndex + folded.length,
+        updatedAt: Date.now(),
+      };
+      return { messages: this.withSummary(updated, kept), summary: updated };
+    } catch (error) {
+      // Still send a history that fits; the folded turns are retried on the next message
+      console.warn('[Context] Failed to summarize history, dropping older turns for this request:', error);
+      return { messages: this.withSummary(validSummary, kept), summary: validSummary };
+    }
+  }
+
+  /**
+   * Render messages as plain text for the summarization prompt
+   */
+  formatTranscript(messages: ChatMessage[], model: string): string {
+    return messages
+      .map(msg => {
+        const content = this.trimToolResult(msg, model).content;
+        if (msg.role === 'tool') {
+          return `Tool result (${msg.name || 'unknown'}): ${content}`;
+        }
+        const calls = msg.tool_calls?.map(call => `${call.function.name}(${call.function.arguments})`).join(', ');
+        const speaker = msg.role === 'user' ? 'User' : 'Assistant';
+        return calls ? `${speaker}: ${content}\n[Called tools: ${calls}]` : `${speaker}: ${content}`;
+      })
+      .join('\n\n');
+  }
+
+  private withSummary(summary: ConversationSummary | undefined, messages: ChatMessage[]): ChatMessage[] {
+    if (!summary) {
+      return messages;
+    }
+
+    // A user/assistant pair keeps strict role alternation for every provider
+    return [
+      { role: 'user', content: `Summary of our earlier conversation:\n${summary.content}` },
+      { role: 'assistant', content: 'Understood. I will use this summary as context for the rest of our conversation.' },
+      ...messages,
+    ];
+  }
+
+  /**
+   * Group messages into turns, each starting with a user message
+   * Tool calls and their results never end up in different turns.
+   */
+  private splitTurns(messages: ChatMessage[]): ChatMessage[][] {
+    const turns: ChatMessage[][] = [];
+    for (const msg of messages) {
+      if (msg.role === 'user' || turns.length === 0) {
+        turns.push([msg]);
+      } else {
+        turns[turns.length - 1].push(msg);
+      }
+    }
+    return turns;
+  }
+
+  private trimToolResult(msg: ChatMessage, model: string): ChatMessage {
+    if (msg.role !== 'tool') {
+      return msg;
+    }
+
+    const maxChars = Math.floor(this.options.toolResultMaxTokens * this.charsPerToken(model));
+    if (msg.content.length <= maxChars) {
+      return msg;
+    }
+
+    return {
+      ...msg,
+      content: `${msg.content.substring(0, maxChars)}\n… [tool result trimmed, ${msg.content.length - maxChars} more characters]`,
+    };
+  }
+
+  private countTokens(messages: ChatMessage[], model: string): number {
+    return messages.reduce((sum, msg) => {
+      const toolCalls = msg.tool_calls ? JSON.stringify(msg.tool_calls) : '';
+      return sum + MESSAGE_OVERHEAD_TOKENS + this.estimateTokens(msg.content + toolCalls, model);
+    }, 0);
+  }
+
+  private charsPerToken(model: string): number {
+    return MODEL_CHARS_PER_TOKEN.find(([pattern]) => pattern.test(model))?.[1] ?? DEFAULT_CHARS_PER_TOKEN;
+  }
+}
@@ -0,0 +1,190 @@
+import {
+  ChatHistory,
+  ChatMessage,
+  ChatOptions,
+  ChatResult,
+  ChatSession,
+  ChatStreamEvent,
+  ChatStreamHandler,
+  PendingAction,
+  ProviderStatus,
+  RecordContext,
+  SalesforceAuth,
+  ToolApprovalDecision,
+} from '../types/index.js';
+import { IAIService, isRetryableError } from './base/AIServiceBase.js';
+
+interface ChainEntry {
+  service: IAIService;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastFailureAt?: number;
+  lastSuccessAt?: number;
+  cooldownUntil?: number;
+}
+
+/**
+ * Tries an ordered chain of AI services, moving to the next one on retryable failures
+ * A provider that failed is skipped for a cooldown period; when every provider is
+ * cooling down they are still tried in order rather than failing straight away.
+ */
+export class FailoverAIService implements IAIService {
+  private entries: ChainEntry[];
+
+  constructor(services: IAIService[], private cooldownMs: number) {
+    if (services.length === 0) {
+      throw new Error('FailoverAIService needs at least one AI service');
+    }
+    this.entries = services.map(service => ({ service, consecutiveFailures: 0 }));
+  }
+
+  async chat(
+    messages: ChatMessage[],
+    userMessage: string,
+    salesforceAuth?: SalesforceAuth,
+    recordContext?: RecordContext,
+    options?: ChatOptions
+  ): Promise<ChatResult> {
+    return this.withFailover(service => service.chat(messages, userMessage, salesforceAuth, recordContext, options));
+  }
+
+  async chatStream(
+    messages: ChatMessage[],
+    userMessage: string,
+    onEvent: ChatStreamHandler,
+    salesforceAuth?: SalesforceAuth,
+    recordContext?: RecordContext,
+    options?: ChatOptions
+  ): Promise<ChatResult> {
+    // Once anything reached the client, switching providers would duplicate output
+    let emitted = false;
+    const trackingHandler = (event: ChatStreamEvent) => {
+      emitted = true;
+      onEvent(event);
+    };
+
+    return this.withFailover(
+      service => service.chatStream(messages, userMessage, trackingHandler, salesforceAuth, recordContext, options),
+      () => !emitted
+    );
+  }
+
+  /**
+   * Resume on the provider that paused; never fails over because the approved
+   * tools have already run by the time the model is called again
+   */
+  async resumeChat(
+    action: PendingAction,
+    decision: ToolApprovalDecision,
+    salesforceAuth?: SalesforceAuth,
+    onEvent?: ChatStreamHandler
+  ): Promise<ChatResult> {
+    const entry = this.entries.find(candidate =>
+      candidate.service.getProviderName() === action.provider && candidate.service.getModelName() === action.model
+    ) ?? this.orderedEntries()[0];
+
+    try {
+      const result = await entry.service.resumeChat(action, decision, salesforceAuth, onEvent);
+      this.recordSuccess(entry);
+      return result;
+    } catch (error) {
+      this.recordFailure(entry, error);
+      throw error;
+    }
+  }
+
+  async prepareHistory(session: ChatSession, history: ChatMessage[], options?: ChatOptions): Promise<ChatHistory> {
+    return this.orderedEntries()[0].service.prepareHistory(session, history, options);
+  }
+
+  getProviderName(): string {
+    return this.entries[0].service.getProviderName();
+  }
+
+  getModelName(): string {
+    return this.entries[0].service.getModelName();
+  }
+
+  /**
+   * State of every provider in chain order
+   */
+  getProviderStatus(): ProviderStatus[] {
+    const now = Date.now();
+    return this.entries.map(entry => ({
+      provider: entry.service.getProviderName(),
+      model: entry.service.getModelName(),
+      status: this.isCoolingDown(entry, now) ? 'cooling_down' : 'available',
+      consecutiveFailures: entry.consecutiveFailures,
+      ...(entry.lastError ? { lastError: entry.lastError } : {}),
+      ...(entry.lastFailureAt ? { lastFailureAt: entry.lastFailureAt } : {}),
+      ...(entry.lastSuccessAt ? { lastSuccessAt: entry.lastSuccessAt } : {}),
+      ...(this.isCoolingDown(entry, now) ? { cooldownUntil: entry.cooldownUntil } : {}),
+    }));
+  }
+
+  private async withFailover(
+    run: (service: IAIService) => Promise<ChatResult>,
+    canFailOver: () => boolean = () => true
+  ): Promise<ChatResult> {
+    const candidates = this.orderedEntries();
+    let lastError: unknown;
+
+    for (const [index, entry] of candidates.entries()) {
+      try {
+        const result = await run(entry.service);
+        this.recordSuccess(entry);
+        if (index > 0) {
+          console.log(`[Failover] Answered by ${result.provider} (${result.model}) after ${index} failed provider(s)`);
+        }
+        return result;
+      } catch (error) {
+        this.recordFailure(entry, error);
+        lastError = error;
+
+        const next = candidates[index + 1];
+        if (!next || !isRetryableError(error) || !canFailOver()) {
+          throw error;
+        }
+
+        console.warn(
+          `[Failover] ${entry.service.getProviderName()} (${entry.service.getModelName()}) failed: ` +
+          `${error instanceof Error ? error.message : error}; trying ${next.service.getProviderName()} (${next.service.getModelName()})`
+        );
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Providers that are not cooling down first, each group in chain order
+   */
+  private orderedEntries(): ChainEntry[] {
+    const now = Date.now();
+    return [
+      ...this.entries.filter(entry => !this.isCoolingDown(entry, now)),
+      ...this.entries.filter(entry => this.isCoolingDown(entry, now)),
+    ];
+  }
+
+  private isCoolingDown(entry: ChainEntry, now: number): boolean {
+    return !!entry.cooldownUntil && entry.cooldownUntil > now;
+  }
+
+  private recordSuccess(entry: ChainEntry): void {
+    entry.consecutiveFailures = 0;
+    entry.cooldownUntil = undefined;
+    entry.lastSuccessAt = Date.now();
+  }
+
+  private recordFailure(entry: ChainEntry, error: unknown): void {
+    entry.lastError = error instanceof Error ? error.message : String(error);
+    entry.lastFailureAt = Date.now();
+
+    // Only provider-side problems count against the provider's health
+    if (isRetryableError(error)) {
+      entry.consecutiveFailures++;
+      entry.cooldownUntil = Date.now() + this.cooldownMs;
+    }
+  }
+}
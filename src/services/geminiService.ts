@@ -0,0 +1,386 @@
+import axios, { AxiosInstance } from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { Config } from '../config/config.js';
+import { MCPClientService, MCPTool } from './mcpClient.js';
+import { ChatMessage } from '../types/index.js';
+import { BaseAIService, ChatTurnContext, ModelReply, ModelRequest } from './base/AIServiceBase.js';
+import { collectGeminiStream } from './base/streaming.js';
+
+/**
+ * JSON Schema keywords Gemini function declarations accept (an OpenAPI 3.0 subset)
+ * Anything else, e.g. `additionalProperties`, `$schema` or `default`, is rejected by the API.
+ */
+const SUPPORTED_SCHEMA_KEYS = [
+  'type',
+  'format',
+  'description',
+  'nullable',
+  'enum',
+  'properties',
+  'required',
+  'items',
+  'minItems',
+  'maxItems',
+  'minimum',
+  'maximum',
+];
+
+/**
+ * Values of `format` Gemini accepts for each type; other formats are dropped
+ */
+const SUPPORTED_FORMATS: Record<string, string[]> = {
+  string: ['enum', 'date-time'],
+  number: ['float', 'double'],
+  integer: ['int32', 'int64'],
+};
+
+/**
+ * Google Gemini integration using the Generative Language API (generateContent)
+ */
+export class GeminiService extends BaseAIService {
+  private client: AxiosInstance;
+  private model: string;
+
+  constructor(config: Config, mcpClient: MCPClientService, model: string = config.geminiModel) {
+    super(config, mcpClient);
+    this.model = model;
+
+    this.client = axios.create({
+      baseURL: config.geminiApiBaseUrl,
+      headers: {
+        'x-goog-api-key': config.geminiApiKey,
+        'Content-Type': 'application/json',
+      },
+      timeout: 60000,
+    });
+  }
+
+  getProviderName(): string {
+    return 'Gemini';
+  }
+
+  getModelName(): string {
+    return this.model;
+  }
+
+  protected async callModel(request: ModelRequest, turn: ChatTurnContext): Promise<ModelReply> {
+    const payload = {
+      systemInstruction: { parts: [{ text: request.systemPrompt }] },
+      contents: this.toGeminiContents(request.messages),
+      ...(request.tools.length > 0
+        ? {
+            tools: [{ functionDeclarations: this.toFunctionDeclarations(request.tools) }],
+            toolConfig: { functionCallingConfig: { mode: request.toolChoice === 'none' ? 'NONE' : 'AUTO' } },
+          }
+        : {}),
+      generationConfig: {
+        temperature: 0.7,
+        maxOutputTokens: 4096,
+      },
+    };
+
+    // Log a small preview of the payload (avoid logging secrets)
+    try {
+      const preview = {
+        model: this.model,
+        contents: payload.contents.slice(-3),
+        tools: request.tools.map(tool => tool.name),
+      };
+      console.log('[Gemini] Request payload preview:', JSON.stringify(preview));
+    } catch (e) {
+      // ignore logging errors
+    }
+
+    const response = await this.postGenerateContent(payload, turn);
+    const candidate = response.data.candidates?.[0];
+
+    console.log('[Gemini] Response:', {
+      model: response.data.modelVersion,
+      finishReason: candidate?.finishReason,
+      parts: candidate?.content?.parts?.length ?? 0,
+    });
+
+    if (!candidate && response.data.promptFeedback?.blockReason) {
+      throw new Error(`Prompt blocked by Gemini (${response.data.promptFeedback.blockReason})`);
+    }
+
+    const parts: any[] = candidate?.content?.parts || [];
+
+    // Thought summaries are not part of the answer
+    const text = parts
+      .filter(part => typeof part.text === 'string' && !part.thought)
+      .map(part => part.text)
+      .join('');
+
+    const schemas = new Map(request.tools.map(tool => [tool.name, tool.inputSchema]));
+    const toolCalls = parts
+      .filter(part => part.functionCall?.name)
+      .map(part => {
+        // Gemini does not always return call IDs, but results are matched to calls by ID
+        const id = part.functionCall.id || `call_${uuidv4()}`;
+        const args = restoreEnumValues(part.functionCall.args || {}, schemas.get(part.functionCall.name));
+        return {
+          id,
+          name: part.functionCall.name,
+          arguments: args as Record<string, unknown>,
+          // Thinking models sign their function calls and expect the signature back on replay
+          ...(part.thoughtSignature ? { thoughtSignature: part.thoughtSignature as string } : {}),
+        };
+      });
+
+    // Thinking tokens are billed as output
+    const usage = response.data.usageMetadata;
+    return {
+      text,
+      toolCalls,
+      usage: usage
+        ? {
+            inputTokens: usage.promptTokenCount ?? 0,
+            outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+            cachedInputTokens: usage.cachedContentTokenCount ?? 0,
+            cacheWriteTokens: 0,
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * Map neutral messages to Gemini contents
+   * Assistant turns use the 'model' role with functionCall parts; consecutive tool
+   * results are grouped into one 'user' turn of functionResponse parts.
+   */
+  private toGeminiContents(messages: ChatMessage[]): any[] {
+    const contents: any[] = [];
+
+    for (const msg of messages) {
+      if (msg.role === 'tool') {
+        const part = {
+          functionResponse: {
+            name: msg.name,
+            response: this.toFunctionResponse(msg.content),
+          },
+        };
+
+        const previous = contents[contents.length - 1];
+        if (previous?.role === 'user' && previous.parts.every((p: any) => p.functionResponse)) {
+          previous.parts.push(part);
+        } else {
+          contents.push({ role: 'user', parts: [part] });
+        }
+        continue;
+      }
+
+      if (msg.role !== 'user' && msg.role !== 'assistant') {
+        continue;
+      }
+
+      const parts: any[] = [];
+      if (msg.content) {
+        parts.push({ text: msg.content });
+      }
+      for (const call of msg.tool_calls ?? []) {
+        let args: unknown = {};
+        try {
+          args = JSON.parse(call.function.arguments || '{}');
+        } catch (e) {
+          args = {};
+        }
+
+        parts.push({
+          functionCall: { name: call.function.name, args },
+          ...(call.thoughtSignature ? { thoughtSignature: call.thoughtSignature } : {}),
+        });
+      }
+
+      if (parts.length > 0) {
+        contents.push({ role: msg.role === 'assistant' ? 'model' : 'user', parts });
+      }
+    }
+
+    return contents;
+  }
+
+  /**
+   * functionResponse.response must be a JSON object; other results are wrapped
+   */
+  private toFunctionResponse(content: string): Record<string, unknown> {
+    try {
+      const parsed = JSON.parse(content);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed;
+      }
+      return { result: parsed };
+    } catch (e) {
+      return { result: content };
+    }
+  }
+
+  protected toServiceError(error: any): Error {
+    console.error('[Gemini] Error:', error.response?.data || error.message);
+
+    const status = error.response?.status;
+    const apiMessage: string | undefined = error.response?.data?.error?.message;
+
+    // An invalid key is reported as a 400 with an API_KEY_INVALID reason
+    if (status === 401 || status === 403 || /api key not valid/i.test(apiMessage || '')) {
+      return new Error('Invalid Gemini API key. Please check your GEMINI_API_KEY environment variable.');
+    }
+
+    if (status === 429) {
+      return new Error('Rate limit exceeded. Please try again in a moment.');
+    }
+
+    return new Error(`Gemini API error: ${apiMessage || error.message}`);
+  }
+
+  /**
+   * POST to generateContent, or streamGenerateContent when a listener is attached
+   * Always resolves to an object with the non-streaming `data` shape
+   */
+  private async postGenerateContent(payload: Record<string, any>, turn: ChatTurnContext): Promise<{ data: any }> {
+    const modelPath = `/models/${encodeURIComponent(this.model)}`;
+
+    if (!turn.onEvent) {
+      return this.client.post(`${modelPath}:generateContent`, payload);
+    }
+
+    const onEvent = turn.onEvent;
+    const response = await this.client.post(
+      `${modelPath}:streamGenerateContent`,
+      payload,
+      { params: { alt: 'sse' }, responseType: 'stream' }
+    );
+    const data = await collectGeminiStream(response.data, (delta) => onEvent({ type: 'text', delta }));
+    return { data };
+  }
+
+  private toFunctionDeclarations(mcpTools: MCPTool[]): any[] {
+    return mcpTools.map((tool: any) => {
+      const parameters = tool.inputSchema ? toGeminiSchema(tool.inputSchema) : undefined;
+
+      return {
+        name: tool.name,
+        description: tool.description || '',
+        // Gemini rejects an object schema without properties, so parameterless tools omit it
+        ...(parameters?.properties ? { parameters } : {}),
+      };
+    });
+  }
+}
+
+/**
+ * Reduce a JSON Schema to the subset Gemini accepts
+ * Nullable unions (`type: ['string', 'null']`, `anyOf` with a null branch) become
+ * `nullable`, other unions keep their first branch, `const` becomes a one-value enum
+ * and enums are converted to strings, the only enum type Gemini supports
+ * (restoreEnumValues converts the arguments back).
+ */
+function toGeminiSchema(schema: any): any {
+  if (!schema || typeof schema !== 'object') {
+    return { type: 'string' };
+  }
+
+  let source = schema;
+  let nullable = schema.nullable === true;
+
+  const union = schema.anyOf || schema.oneOf;
+  if (Array.isArray(union) && union.length > 0) {
+    const branches = union.filter((branch: any) => branch?.type !== 'null');
+    nullable = nullable || branches.length < union.length;
+    source = { ...branches[0], description: schema.description ?? branches[0]?.description };
+  }
+
+  let type = source.type;
+  if (Array.isArray(type)) {
+    nullable = nullable || type.includes('null');
+    type = type.find((t: string) => t !== 'null');
+  }
+  if (!type) {
+    type = source.properties ? 'object' : source.items ? 'array' : 'string';
+  }
+
+  const result: any = {};
+  for (const key of SUPPORTED_SCHEMA_KEYS) {
+    if (source[key] !== undefined) {
+      result[key] = source[key];
+    }
+  }
+  result.type = type;
+
+  if (nullable) {
+    result.nullable = true;
+  }
+
+  if (source.const !== undefined) {
+    result.enum = [source.const];
+  }
+  if (Array.isArray(result.enum)) {
+    result.type = 'string';
+    result.enum = result.enum.filter((value: unknown) => value !== null).map((value: unknown) => String(value));
+  }
+
+  if (result.format && !SUPPORTED_FORMATS[result.type]?.includes(result.format)) {
+    delete result.format;
+  }
+
+  if (result.type === 'object') {
+    const properties = Object.entries(source.properties || {});
+    if (properties.length > 0) {
+      result.properties = Object.fromEntries(properties.map(([name, value]) => [name, toGeminiSchema(value)]));
+      if (Array.isArray(source.required)) {
+        result.required = source.required.filter((name: string) => name in result.properties);
+      }
+    } else {
+      delete result.properties;
+      delete result.required;
+    }
+  } else {
+    delete result.properties;
+    delete result.required;
+  }
+
+  if (result.type === 'array') {
+    // Arrays must declare their item type
+    result.items = toGeminiSchema(Array.isArray(source.items) ? source.items[0] : source.items);
+  } else {
+    delete result.items;
+    delete result.minItems;
+    delete result.maxItems;
+  }
+
+  return result;
+}
+
+/**
+ * Undo the enum conversion of toGeminiSchema on function call arguments
+ * Gemini answers with the strings it was offered, so number and boolean enum values
+ * are looked up again in the tool's original schema, following the same union branch.
+ */
+function restoreEnumValues(value: unknown, schema: any): unknown {
+  if (!schema || typeof schema !== 'object') {
+    return value;
+  }
+
+  const union = schema.anyOf || schema.oneOf;
+  const source = Array.isArray(union) && union.length > 0
+    ? union.find((branch: any) => branch?.type !== 'null') ?? schema
+    : schema;
+
+  const options = source.const !== undefined ? [source.const] : source.enum;
+  if (Array.isArray(options) && typeof value === 'string') {
+    return options.find((option: unknown) => option !== null && String(option) === value) ?? value;
+  }
+
+  if (Array.isArray(value)) {
+    const items = Array.isArray(source.items) ? source.items[0] : source.items;
+    return value.map(item => restoreEnumValues(item, items));
+  }
+
+  if (value && typeof value === 'object' && source.properties) {
+    return Object.fromEntries(
+      Object.entries(value).map(([name, item]) => [name, restoreEnumValues(item, source.properties[name])])
+    );
+  }
+
+  return value;
+}
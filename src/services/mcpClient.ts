@@ -1,8 +1,9 @@
 import axios, { AxiosInstance } from 'axios';
 import { Config } from '../config/config.js';
 import { SalesforceAuth } from '../types/index.js';
+import { RetryContext, RetryPolicy, retryOptionsFromConfig } from './retryPolicy.js';
 
-interface MCPTool {
+export interface MCPTool {
   name: string;
   description: string;
   inputSchema: {
@@ -21,23 +22,62 @@ interface MCPToolResponse {
   isError?: boolean;
 }
 
+/**
+ * Per-call options for tools/call
+ */
+export interface MCPCallOptions {
+  // Epoch ms after which the call is no longer retried
+  retryDeadline?: number;
+  // Safe to repeat after a timeout or server error (read-only tools)
+  idempotent?: boolean;
+}
+
+// Failures that happen before the request reaches the MCP server, safe to retry for any tool
+const NOT_SENT_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+/**
+ * The server no longer knows the session a request was sent with
+ */
+class MCPSessionExpiredError extends Error {
+  constructor(public sessionId: string) {
+    super(`MCP session ${sessionId} has expired`);
+    this.name = 'MCPSessionExpiredError';
+  }
+}
+
+// Protocol versions this client speaks, newest first; the first is proposed in initialize
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+/**
+ * MCP client for the Streamable HTTP transport
+ * The session starts with initialize and notifications/initialized. The server-issued
+ * Mcp-Session-Id and the negotiated MCP-Protocol-Version are sent with every later
+ * request; a session the server no longer knows (HTTP 404) is initialized again.
+ */
 export class MCPClientService {
   private httpClient: AxiosInstance;
   private connected: boolean = false;
   private toolsCache: MCPTool[] | null = null;
+  // JSON-RPC ids must be unique while tool calls run concurrently
+  private lastRequestId = 0;
+  private retryPolicy: RetryPolicy;
 
-  private sessionId: string;
+  // Issued by the server in initialize; unset for stateless servers
+  private sessionId?: string;
+  // Unset until initialize succeeded
+  private protocolVersion?: string;
+  // Running initialize, shared by requests that find the session expired at the same time
+  private initializing: Promise<void> | null = null;
 
   constructor(private config: Config) {
-    // Generate a unique session ID for this client
-    this.sessionId = `bridge-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    
+    this.retryPolicy = new RetryPolicy(retryOptionsFromConfig(config));
+
     this.httpClient = axios.create({
       baseURL: this.config.mcpServerUrl,
       timeout: 30000,
       headers: {
         'Content-Type': 'application/json',
-        // MCP SSE servers require both content types
+        // Streamable HTTP servers answer with JSON or an SSE stream and require both
         'Accept': 'application/json, text/event-stream',
       },
     });
@@ -46,20 +86,17 @@ export class MCPClientService {
   async connect(): Promise<void> {
     try {
       console.log(`Connecting to MCP Salesforce Server at ${this.config.mcpServerUrl}...`);
-      console.log('Note: Assuming MCP server implements the expected tool interface');
-      
-      // For now, mark as connected and fetch tools lazily
-      // The actual MCP server might use SSE or a different protocol
       this.connected = true;
-      
-      // Try to fetch tools to validate connection
+
+      // Validate the connection now; if the server is not reachable yet, the
+      // session is started and the tools fetched on first use
       try {
+        await this.initialize();
         await this.fetchTools();
         console.log(`✓ Connected to MCP Salesforce Server (${this.toolsCache?.length || 0} tools available)`);
       } catch (toolError) {
-        console.warn('Could not fetch tools list, but marking as connected');
+        console.warn('Could not initialize the MCP session or fetch the tools list, but marking as connected');
         console.warn('Tools will be fetched on first use');
-        // Still mark as connected - tools might be available via different endpoint
       }
     } catch (error) {
       console.error('Failed to connect to MCP server:', error);
@@ -67,67 +104,187 @@ export class MCPClientService {
     }
   }
 
-  private parseSSEResponse(data: string): any {
-    // Parse SSE format: "event: message\ndata: {...}\n\n"
-    if (typeof data === 'string' && data.includes('data:')) {
-      const lines = data.split('\n');
-      for (const line of lines) {
-        if (line.startsWith('data:')) {
-          const jsonStr = line.substring(5).trim();
-          try {
-            return JSON.parse(jsonStr);
-          } catch (e) {
-            console.error('Failed to parse SSE data:', jsonStr);
-          }
-        }
+  /**
+   * JSON-RPC response with the given id from a JSON body or an SSE stream
+   * A stream may carry notifications and requests before the response, and an
+   * event's data may span several `data:` lines.
+   */
+  private parseSSEResponse(data: any, id: number): any {
+    if (typeof data !== 'string' || !data.includes('data:')) {
+      return data;
+    }
+
+    const messages: any[] = [];
+    for (const event of data.split(/\r?\n\r?\n/)) {
+      const payload = event
+        .split(/\r?\n/)
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.substring(5).trim())
+        .join('\n');
+      if (!payload) {
+        continue;
+      }
+      try {
+        messages.push(JSON.parse(payload));
+      } catch (e) {
+        console.error('Failed to parse SSE data:', payload);
       }
     }
-    return data;
+
+    return messages.find(message => message?.id === id)
+      ?? messages.find(message => message && ('result' in message || 'error' in message));
   }
 
-  private async fetchTools(): Promise<void> {
-    try {
-      // First, initialize the session
-      console.log(`Initializing MCP session: ${this.sessionId}`);
-      const initResponse = await this.httpClient.post(`?sessionId=${this.sessionId}`, {
+  /**
+   * Headers that tie a request to the current session
+   */
+  private sessionHeaders(): Record<string, string> {
+    return {
+      ...(this.sessionId ? { 'Mcp-Session-Id': this.sessionId } : {}),
+      ...(this.protocolVersion ? { 'MCP-Protocol-Version': this.protocolVersion } : {}),
+    };
+  }
+
+  /**
+   * Start a new session; concurrent callers share one initialize
+   */
+  private initialize(): Promise<void> {
+    if (!this.initializing) {
+      this.initializing = this.runInitialize().finally(() => {
+        this.initializing = null;
+      });
+    }
+    return this.initializing;
+  }
+
+  private async runInitialize(): Promise<void> {
+    this.sessionId = undefined;
+    this.protocolVersion = undefined;
+
+    const id = ++this.lastRequestId;
+    const response = await this.retryPolicy.execute('mcp:initialize', () =>
+      this.httpClient.post('', {
         jsonrpc: '2.0',
-        id: 1,
+        id,
         method: 'initialize',
         params: {
-          protocolVersion: '2024-11-05',
+          protocolVersion: SUPPORTED_PROTOCOL_VERSIONS[0],
           capabilities: {},
           clientInfo: {
             name: 'salesforce-ai-bridge',
             version: '1.0.0',
           },
         },
-      });
+      })
+    );
 
-      // Parse SSE response if needed
-      const initData = this.parseSSEResponse(initResponse.data);
-      console.log('Session initialized');
+    const data = this.parseSSEResponse(response.data, id);
+    if (data?.error) {
+      throw new Error(`MCP initialize failed: ${data.error.message}`);
+    }
 
-      // Now list the tools
-      console.log('Fetching tools list...');
-      const toolsResponse = await this.httpClient.post(`?sessionId=${this.sessionId}`, {
-        jsonrpc: '2.0',
-        id: 2,
-        method: 'tools/list',
-        params: {},
-      });
+    // The server answers with the version it will use; anything else cannot be spoken
+    const version = data?.result?.protocolVersion;
+    if (!SUPPORTED_PROTOCOL_VERSIONS.includes(version)) {
+      throw new Error(
+        `MCP server uses protocol version "${version}"; supported versions are ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}`
+      );
+    }
 
-      // Parse SSE response
-      const toolsData = this.parseSSEResponse(toolsResponse.data);
-      
-      if (toolsData && toolsData.result && toolsData.result.tools) {
-        this.toolsCache = toolsData.result.tools;
-        console.log(`✓ Successfully fetched ${this.toolsCache?.length || 0} tools`);
-      } else {
-        throw new Error('Invalid tools response format');
+    const sessionId: string | undefined = response.headers['mcp-session-id'] || undefined;
+    await this.httpClient.post('', { jsonrpc: '2.0', method: 'notifications/initialized' }, {
+      headers: { ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}), 'MCP-Protocol-Version': version },
+    });
+
+    // Other requests use the session only once the server knows initialization is done
+    this.sessionId = sessionId;
+    this.protocolVersion = version;
+
+    const serverInfo = data.result.serverInfo;
+    console.log(
+      `MCP session initialized with ${serverInfo?.name || 'server'}${serverInfo?.version ? ` ${serverInfo.version}` : ''} ` +
+      `(protocol ${version}, ${this.sessionId ? `session ${this.sessionId}` : 'stateless'})`
+    );
+  }
+
+  /**
+   * Send a JSON-RPC request within the session and return the response message
+   * When the server answers 404 to our session ID the session has expired: it is
+   * initialized again and the request sent once more. That is safe for any tool,
+   * since a server that does not know the session never ran the request.
+   */
+  private async sendRequest(
+    method: string,
+    params: Record<string, unknown>,
+    retryContext: RetryContext = {},
+    headers: Record<string, string> = {}
+  ): Promise<any> {
+    if (this.initializing || !this.protocolVersion) {
+      await this.initialize();
+    }
+
+    const send = async () => {
+      const id = ++this.lastRequestId;
+      const sessionId = this.sessionId;
+      try {
+        const response = await this.retryPolicy.execute(
+          `mcp:${method}`,
+          () => this.httpClient.post('', { jsonrpc: '2.0', id, method, params }, {
+            headers: { ...this.sessionHeaders(), ...headers },
+          }),
+          retryContext
+        );
+        return this.parseSSEResponse(response.data, id);
+      } catch (error) {
+        if (sessionId && axios.isAxiosError(error) && error.response?.status === 404) {
+          throw new MCPSessionExpiredError(sessionId);
+        }
+        throw error;
       }
+    };
+
+    try {
+      return await send();
+    } catch (error) {
+      if (!(error instanceof MCPSessionExpiredError)) {
+        throw error;
+      }
+
+      console.warn(`MCP session ${error.sessionId} expired; initializing a new one`);
+      // Another request may already have replaced the session
+      if (this.sessionId === error.sessionId) {
+        await this.initialize();
+      } else if (this.initializing) {
+        await this.initializing;
+      }
+      return send();
+    }
+  }
+
+  /**
+   * Fetch the tools list, following pagination cursors
+   */
+  private async fetchTools(): Promise<void> {
+    try {
+      console.log('Fetching tools list...');
+      const tools: MCPTool[] = [];
+      let cursor: string | undefined;
+
+      do {
+        const data = await this.sendRequest('tools/list', cursor ? { cursor } : {});
+        if (!data?.result?.tools) {
+          console.error('Invalid response structure:', data);
+          throw new Error('Invalid tools response format');
+        }
+        tools.push(...data.result.tools);
+        cursor = data.result.nextCursor;
+      } while (cursor);
+
+      this.toolsCache = tools;
+      console.log(`✓ Successfully fetched ${this.toolsCache.length} tools`);
     } catch (error) {
       if (axios.isAxiosError(error)) {
-        console.error('MCP Server Error:', error.response?.data);
+        console.error('MCP Server Error:', error.response?.status, error.response?.data);
       }
       throw error;
     }
@@ -138,41 +295,18 @@ export class MCPClientService {
       throw new Error('MCP client not connected');
     }
 
-    try {
-      // Return cached tools if available
-      if (this.toolsCache && this.toolsCache.length > 0) {
-        console.log(`Returning ${this.toolsCache.length} cached tools`);
-        return this.toolsCache as MCPTool[];
-      }
+    // Return cached tools if available
+    if (this.toolsCache && this.toolsCache.length > 0) {
+      console.log(`Returning ${this.toolsCache.length} cached tools`);
+      return this.toolsCache;
+    }
 
-      // Fetch tools from server using the same method as fetchTools()
+    try {
       console.log('Fetching tools from MCP server...');
-      const response = await this.httpClient.post(`?sessionId=${this.sessionId}`, {
-        jsonrpc: '2.0',
-        id: Date.now(),
-        method: 'tools/list',
-        params: {},
-      });
-
-      // Parse SSE response
-      const data = this.parseSSEResponse(response.data);
-      
-      console.log('Tools response data:', JSON.stringify(data, null, 2));
-
-      if (data && data.result && data.result.tools) {
-        this.toolsCache = data.result.tools;
-        console.log(`✓ Fetched ${this.toolsCache?.length || 0} tools`);
-        return this.toolsCache as MCPTool[];
-      }
-
-      console.error('Invalid response structure:', data);
-      throw new Error('Invalid response from MCP server');
+      await this.fetchTools();
+      return this.toolsCache ?? [];
     } catch (error) {
       console.error('Error listing tools:', error);
-      if (axios.isAxiosError(error)) {
-        console.error('Response status:', error.response?.status);
-        console.error('Response data:', error.response?.data);
-      }
       throw error;
     }
   }
@@ -180,7 +314,8 @@ export class MCPClientService {
   async callTool(
     name: string,
     args: Record<string, unknown>,
-    salesforceAuth?: SalesforceAuth
+    salesforceAuth?: SalesforceAuth,
+    options: MCPCallOptions = {}
   ): Promise<MCPToolResponse> {
     if (!this.connected) {
       throw new Error('MCP client not connected');
@@ -189,17 +324,6 @@ export class MCPClientService {
     try {
       console.log(`Calling MCP tool: ${name}`, JSON.stringify(args, null, 2));
       
-      // Build the request body without Salesforce auth
-      const requestBody: any = {
-        jsonrpc: '2.0',
-        id: Date.now(),
-        method: 'tools/call',
-        params: {
-          name,
-          arguments: args,
-        },
-      };
-      
       // Build custom headers for Salesforce auth if provided
       const headers: Record<string, string> = {};
       if (salesforceAuth) {
@@ -212,15 +336,20 @@ export class MCPClientService {
         );
       }
       
-      const response = await this.httpClient.post(
-        `?sessionId=${this.sessionId}`, 
-        requestBody,
-        { headers }
+      // A tool that changes data is not repeated when an earlier attempt may have run
+      const data = await this.sendRequest(
+        'tools/call',
+        { name, arguments: args },
+        {
+          deadline: options.retryDeadline,
+          canRetry: (error: any) =>
+            options.idempotent === true ||
+            NOT_SENT_ERROR_CODES.includes(error?.code) ||
+            error?.response?.status === 429,
+        },
+        headers
       );
 
-      // Parse SSE response
-      const data = this.parseSSEResponse(response.data);
-
       console.log(`Tool ${name} response:`, JSON.stringify(data, null, 2));
 
       if (data && data.result) {
@@ -243,12 +372,27 @@ export class MCPClientService {
     }
   }
 
+  /**
+   * End the session on the server (DELETE with the session ID) and forget it
+   */
   async disconnect(): Promise<void> {
+    const headers = this.sessionHeaders();
+    this.connected = false;
+    this.toolsCache = null;
+    this.sessionId = undefined;
+    this.protocolVersion = undefined;
+
     try {
-      this.connected = false;
-      this.toolsCache = null;
+      if (headers['Mcp-Session-Id']) {
+        await this.httpClient.delete('', { headers });
+      }
       console.log('Disconnected from MCP Salesforce Server');
     } catch (error) {
+      // 405: the server does not let clients end sessions; it expires them itself
+      if (axios.isAxiosError(error) && error.response?.status === 405) {
+        console.log('Disconnected from MCP Salesforce Server (session left to expire)');
+        return;
+      }
       console.error('Error disconnecting from MCP server:', error);
     }
   }
@@ -0,0 +1,251 @@
+import { promises as fs, readFileSync } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Config } from '../config/config.js';
+import { MCPClientService } from './mcpClient.js';
+import { TokenUsage } from '../types/index.js';
+import {
+  BaseAIService,
+  ChatTurnContext,
+  ModelExchangeRecorder,
+  ModelReply,
+  ModelRequest,
+  ModelToolCall,
+} from './base/AIServiceBase.js';
+
+/**
+ * One model step of a script: tool calls to make and/or text to answer with
+ */
+export interface MockScriptStep {
+  text?: string;
+  toolCalls?: Array<{ name: string; arguments?: Record<string, unknown> }>;
+}
+
+/**
+ * One recorded model call, found again on replay by the user message and tool round
+ */
+export interface FixtureExchange {
+  userMessage: string;
+  // Tool rounds completed since the user message when the call was made
+  round: number;
+  provider: string;
+  model: string;
+  // Names of the tools offered to the model
+  tools: string[];
+  toolChoice?: ModelRequest['toolChoice'];
+  reply: {
+    text: string;
+    toolCalls: ModelToolCall[];
+    usage?: TokenUsage;
+  };
+}
+
+const SCRIPT_FINISHED_MESSAGE = 'Mock script finished.';
+
+const NO_USAGE: TokenUsage = { inputTokens: 0, outputTokens: 0, cachedInputTokens: 0, cacheWriteTokens: 0 };
+
+/**
+ * Text of the last user message and the tool rounds since it, the key a call is replayed by
+ * Timestamps, ids and the system prompt (which contains the date) are left out on purpose.
+ */
+function exchangeKey(messages: ModelRequest['messages']): { userMessage: string; round: number } {
+  let lastUser = messages.length - 1;
+  while (lastUser >= 0 && messages[lastUser].role !== 'user') {
+    lastUser--;
+  }
+
+  const round = messages
+    .slice(lastUser + 1)
+    .filter(message => message.role === 'assistant' && message.tool_calls?.length)
+    .length;
+
+  return { userMessage: lastUser >= 0 ? messages[lastUser].content : '', round };
+}
+
+function readJsonFile(file: string, variableName: string): any {
+  try {
+    return JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read ${variableName} ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Read a script of `{ "steps": [{ "toolCalls": [{ "name", "arguments" }] }, { "text": "..." }] }`
+ */
+export function loadMockScript(scriptFile: string): MockScriptStep[] {
+  const steps = readJsonFile(scriptFile, 'MOCK_SCRIPT_FILE')?.steps;
+  if (!Array.isArray(steps)) {
+    throw new Error(`MOCK_SCRIPT_FILE ${scriptFile} needs a "steps" array`);
+  }
+
+  steps.forEach((step: any, index: number) => {
+    if (step?.text !== undefined && typeof step.text !== 'string') {
+      throw new Error(`MOCK_SCRIPT_FILE step ${index}: "text" must be a string`);
+    }
+    if (step?.toolCalls !== undefined &&
+      (!Array.isArray(step.toolCalls) || step.toolCalls.some((call: any) => typeof call?.name !== 'string'))) {
+      throw new Error(`MOCK_SCRIPT_FILE step ${index}: "toolCalls" must be a list of { "name", "arguments" }`);
+    }
+  });
+
+  console.log(`Loaded ${steps.length} mock script steps from ${scriptFile}`);
+  return steps;
+}
+
+/**
+ * Read the exchanges of a fixture file; a missing file has none
+ */
+function readFixture(fixtureFile: string): FixtureExchange[] {
+  try {
+    return JSON.parse(readFileSync(fixtureFile, 'utf8')).exchanges ?? [];
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw new Error(`Could not read MOCK_FIXTURE_FILE ${fixtureFile}: ${error.message}`);
+  }
+}
+
+/**
+ * Writes the model calls of a real provider to a fixture file for MOCK_MODE=replay
+ * Exchanges are appended to the ones already in the file, and the whole file is
+ * rewritten after every call.
+ */
+export class FixtureRecorder implements ModelExchangeRecorder {
+  private exchanges: FixtureExchange[];
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private fixtureFile: string) {
+    this.exchanges = readFixture(fixtureFile);
+  }
+
+  record(request: ModelRequest, reply: ModelReply, provider: string, model: string): void {
+    this.exchanges.push({
+      ...exchangeKey(request.messages),
+      provider,
+      model,
+      tools: request.tools.map(tool => tool.name),
+      ...(request.toolChoice ? { toolChoice: request.toolChoice } : {}),
+      reply: {
+        text: reply.text,
+        toolCalls: reply.toolCalls,
+        ...(reply.usage ? { usage: reply.usage } : {}),
+      },
+    });
+
+    const content = JSON.stringify({ exchanges: this.exchanges }, null, 2);
+    this.writes = this.writes.then(async () => {
+      await fs.mkdir(path.dirname(this.fixtureFile), { recursive: true });
+
+      // Write to a temp file and rename so a replay never reads a partial file
+      const tempPath = `${this.fixtureFile}.${process.pid}.${uuidv4()}.tmp`;
+      await fs.writeFile(tempPath, content, 'utf8');
+      await fs.rename(tempPath, this.fixtureFile);
+    }).catch(error => {
+      console.error(`[Mock] Failed to write fixture ${this.fixtureFile}:`, error);
+    });
+  }
+}
+
+/**
+ * Offline provider for tests and demos; MOCK_MODE selects what it answers
+ * - echo: repeats the last user message
+ * - script: makes the tool calls of MOCK_SCRIPT_FILE, one step per tool round of a message
+ * - replay: answers with the exchanges recorded in MOCK_FIXTURE_FILE
+ * Tools are executed against the real MCP server in every mode.
+ */
+export class MockAIService extends BaseAIService {
+  private model: string;
+  private steps: MockScriptStep[] = [];
+  private fixture: Map<string, FixtureExchange[]> = new Map();
+  // Exchanges replayed so far per key; the last one is repeated once a key runs out
+  private replayed: Map<string, number> = new Map();
+
+  constructor(config: Config, mcpClient: MCPClientService, model: string = config.mockModel) {
+    super(config, mcpClient);
+    this.model = model;
+
+    if (config.mockMode === 'script') {
+      this.steps = loadMockScript(config.mockScriptFile!);
+    }
+
+    if (config.mockMode === 'replay') {
+      const exchanges = readFixture(config.mockFixtureFile!);
+      if (exchanges.length === 0) {
+        throw new Error(`MOCK_FIXTURE_FILE ${config.mockFixtureFile} has no recorded exchanges`);
+      }
+      for (const exchange of exchanges) {
+        const key = JSON.stringify([exchange.userMessage, exchange.round]);
+        this.fixture.set(key, [...(this.fixture.get(key) ?? []), exchange]);
+      }
+      console.log(`Loaded ${exchanges.length} recorded exchanges from ${config.mockFixtureFile}`);
+    }
+  }
+
+  getProviderName(): string {
+    return 'Mock';
+  }
+
+  getModelName(): string {
+    return this.model;
+  }
+
+  protected async callModel(request: ModelRequest, turn: ChatTurnContext): Promise<ModelReply> {
+    const reply = this.config.mockMode === 'replay'
+      ? this.replay(request)
+      : this.config.mockMode === 'script'
+        ? this.runScript(request)
+        : { text: `Echo: ${exchangeKey(request.messages).userMessage}`, toolCalls: [] };
+
+    if (reply.text && turn.onEvent) {
+      turn.onEvent({ type: 'text', delta: reply.text });
+    }
+    // Fixtures recorded before a usage field existed lack it
+    return { ...reply, usage: { ...NO_USAGE, ...reply.usage } };
+  }
+
+  protected toServiceError(error: any): Error {
+    console.error('[Mock] Error:', error.message);
+    return error instanceof Error ? error : new Error(`Mock provider error: ${error}`);
+  }
+
+  /**
+   * Step of the script for the current tool round; every new user message starts over
+   * Tool calls are skipped when the request does not allow them (summaries, iteration limit).
+   */
+  private runScript(request: ModelRequest): ModelReply {
+    const { round } = exchangeKey(request.messages);
+    const step = this.steps[round];
+    if (!step) {
+      return { text: SCRIPT_FINISHED_MESSAGE, toolCalls: [] };
+    }
+
+    const canCallTools = request.tools.length > 0 && request.toolChoice !== 'none';
+    const toolCalls = canCallTools
+      ? (step.toolCalls ?? []).map((call, index) => ({
+          id: `call_mock_${round}_${index}`,
+          name: call.name,
+          arguments: call.arguments ?? {},
+        }))
+      : [];
+
+    return { text: step.text ?? (toolCalls.length > 0 ? '' : SCRIPT_FINISHED_MESSAGE), toolCalls };
+  }
+
+  private replay(request: ModelRequest): ModelReply {
+    const { userMessage, round } = exchangeKey(request.messages);
+    const key = JSON.stringify([userMessage, round]);
+    const exchanges = this.fixture.get(key);
+    if (!exchanges) {
+      throw new Error(
+        `No recorded exchange for tool round ${round} of the message "${userMessage.slice(0, 100)}" ` +
+        `in ${this.config.mockFixtureFile}`
+      );
+    }
+
+    const index = this.replayed.get(key) ?? 0;
+    this.replayed.set(key, index + 1);
+    return exchanges[Math.min(index, exchanges.length - 1)].reply;
+  }
+}
@@ -0,0 +1,213 @@
+import axios, { AxiosInstance } from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { Config } from '../config/config.js';
+import { MCPClientService, MCPTool } from './mcpClient.js';
+import { TokenUsage } from '../types/index.js';
+import { BaseAIService, ChatTurnContext, ModelReply, ModelRequest } from './base/AIServiceBase.js';
+import { collectChatCompletionStream } from './base/streaming.js';
+
+/**
+ * Where and how to reach a Chat Completions endpoint
+ */
+export interface ChatCompletionsEndpoint {
+  baseUrl: string;
+  headers: Record<string, string>;
+  timeoutMs: number;
+}
+
+/**
+ * Token usage of a Chat Completions response (`usage`), if the server reported it
+ */
+export function chatCompletionUsage(usage: any): TokenUsage | undefined {
+  if (!usage || typeof usage.prompt_tokens !== 'number') {
+    return undefined;
+  }
+  return {
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens ?? 0,
+    cachedInputTokens: usage.prompt_tokens_details?.cached_tokens ?? 0,
+    cacheWriteTokens: 0,
+  };
+}
+
+/**
+ * Endpoint for the generic provider; the key is optional because most local servers ignore it
+ */
+function openAICompatibleEndpoint(config: Config): ChatCompletionsEndpoint {
+  const headers: Record<string, string> = {};
+  if (config.openaiCompatibleApiKey) {
+    const header = config.openaiCompatibleAuthHeader;
+    headers[header] = header.toLowerCase() === 'authorization'
+      ? `Bearer ${config.openaiCompatibleApiKey}`
+      : config.openaiCompatibleApiKey;
+  }
+
+  return {
+    baseUrl: config.openaiCompatibleBaseUrl,
+    headers,
+    timeoutMs: config.openaiCompatibleTimeoutMs,
+  };
+}
+
+/**
+ * Any server that speaks the OpenAI Chat Completions API with tool calling,
+ * e.g. Ollama, vLLM or LM Studio running next to the bridge
+ */
+export class OpenAICompatibleService extends BaseAIService {
+  protected client: AxiosInstance;
+  protected model: string;
+
+  constructor(
+    config: Config,
+    mcpClient: MCPClientService,
+    model: string = config.openaiCompatibleModel,
+    endpoint: ChatCompletionsEndpoint = openAICompatibleEndpoint(config)
+  ) {
+    super(config, mcpClient);
+    this.model = model;
+
+    this.client = axios.create({
+      baseURL: endpoint.baseUrl,
+      headers: {
+        ...endpoint.headers,
+        'Content-Type': 'application/json',
+      },
+      timeout: endpoint.timeoutMs,
+    });
+  }
+
+  getProviderName(): string {
+    return 'OpenAI-Compatible';
+  }
+
+  getModelName(): string {
+    return this.model;
+  }
+
+  protected async callModel(request: ModelRequest, turn: ChatTurnContext): Promise<ModelReply> {
+    const payload = this.buildPayload(request);
+    const provider = this.getProviderName();
+
+    // Log a redacted preview of the payload (avoid logging secrets)
+    try {
+      const preview = {
+        model: payload.model,
+        messages: payload.messages.slice(-3), // show last few messages
+        tools: (payload.tools || []).map((t: any) => t.function?.name || '<unknown>'),
+      };
+      console.log(`📦 [${provider}] Request payload preview:`, JSON.stringify(preview));
+    } catch (e) {
+      // ignore logging errors
+    }
+
+    const response = await this.postCompletion(payload, turn);
+    const choice = response.data.choices?.[0];
+
+    console.log(`[${provider}] Response:`, {
+      model: response.data.model,
+      finishReason: choice?.finish_reason,
+    });
+
+    const message = choice?.message || {};
+    const toolCalls = (message.tool_calls || []).map((toolCall: any) => {
+      // Some local servers return the arguments as an object instead of a JSON string
+      const rawArgs = toolCall.function?.arguments;
+      let toolArgs;
+
+      try {
+        toolArgs = typeof rawArgs === 'string' ? JSON.parse(rawArgs || '{}') : (rawArgs || {});
+      } catch (e) {
+        toolArgs = {};
+      }
+
+      // Results are matched to calls by ID, so make one up when the server omits it
+      return { id: toolCall.id || `call_${uuidv4()}`, name: toolCall.function?.name, arguments: toolArgs };
+    }).filter((call: any) => !!call.name);
+
+    return { text: message.content || '', toolCalls, usage: chatCompletionUsage(response.data.usage) };
+  }
+
+  /**
+   * Chat Completions payload; neutral messages already use this format
+   */
+  protected buildPayload(request: ModelRequest) {
+    return {
+      model: this.model,
+      messages: [
+        {
+          role: 'system',
+          content: request.systemPrompt,
+        },
+        ...request.messages.map(msg => ({
+          role: msg.role,
+          content: msg.content,
+          ...(msg.tool_calls ? { tool_calls: msg.tool_calls } : {}),
+          ...(msg.tool_call_id ? { tool_call_id: msg.tool_call_id, name: msg.name } : {}),
+        })),
+      ],
+      ...(request.tools.length > 0
+        ? { tools: this.toChatCompletionTools(request.tools), tool_choice: request.toolChoice ?? 'auto' }
+        : {}),
+      temperature: 0.7,
+      max_tokens: 4096,
+    };
+  }
+
+  protected toServiceError(error: any): Error {
+    console.error('[OpenAI-Compatible] Error:', error.response?.data || error.message);
+
+    if (error.code === 'ECONNREFUSED') {
+      return new Error(`Could not reach the OpenAI-compatible server at ${this.client.defaults.baseURL}. Please check OPENAI_COMPATIBLE_BASE_URL.`);
+    }
+
+    if (error.response?.status === 401 || error.response?.status === 403) {
+      return new Error('The OpenAI-compatible server rejected the credentials. Please check OPENAI_COMPATIBLE_API_KEY and OPENAI_COMPATIBLE_AUTH_HEADER.');
+    }
+
+    if (error.response?.status === 404) {
+      return new Error(`Model "${this.model}" or the /chat/completions endpoint was not found on the OpenAI-compatible server.`);
+    }
+
+    if (error.response?.status === 429) {
+      return new Error('Rate limit exceeded. Please try again in a moment.');
+    }
+
+    const apiMessage = error.response?.data?.error?.message;
+    return new Error(`OpenAI-compatible API error: ${apiMessage || error.message}`);
+  }
+
+  /**
+   * POST to /chat/completions, streaming text deltas when a listener is attached
+   * Always resolves to an object with the non-streaming `data` shape
+   */
+  private async postCompletion(payload: Record<string, any>, turn: ChatTurnContext): Promise<{ data: any }> {
+    if (!turn.onEvent) {
+      return this.client.post('/chat/completions', payload);
+    }
+
+    const onEvent = turn.onEvent;
+    // Without stream_options the usage is not part of a streamed response
+    const response = await this.client.post(
+      '/chat/completions',
+      { ...payload, stream: true, stream_options: { include_usage: true } },
+      { responseType: 'stream' }
+    );
+    const data = await collectChatCompletionStream(response.data, (delta) => onEvent({ type: 'text', delta }));
+    return { data };
+  }
+
+  private toChatCompletionTools(mcpTools: MCPTool[]): any[] {
+    return mcpTools.map((tool: any) => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description || '',
+        parameters: tool.inputSchema || {
+          type: 'object',
+          properties: {},
+          required: [],
+        },
+      },
+    }));
+  }
+}
@@ -1,23 +1,25 @@
 import axios, { AxiosInstance } from 'axios';
+import { v4 as uuidv4 } from 'uuid';
 import { Config } from '../config/config.js';
-import { MCPClientService } from './mcpClient.js';
-import { ChatMessage } from '../types/index.js';
-import { BaseAIService } from './base/AIServiceBase.js';
+import { MCPClientService, MCPTool } from './mcpClient.js';
+import { BaseAIService, ChatTurnContext, ModelReply, ModelRequest } from './base/AIServiceBase.js';
+import { collectChatCompletionStream } from './base/streaming.js';
+import { chatCompletionUsage } from './openAICompatibleService.js';
 
 /**
  * Minimal Perplexity integration.
  * This implementation uses Perplexity's HTTP API to send a conversation and
  * handle simple tool calling behavior by mapping MCP tools into a function-like
- * schema. The Perplexity API surface can vary; this implementation aims to be
- * consistent with the project's agentic loop used for OpenRouter.
+ * schema. The Perplexity API surface can vary; this adapter is tolerant about
+ * where tool calls appear in the response.
  */
 export class PerplexityService extends BaseAIService {
   private client: AxiosInstance;
   private model: string;
 
-  constructor(config: Config, mcpClient: MCPClientService) {
-    super(mcpClient);
-    this.model = config.perplexityModel;
+  constructor(config: Config, mcpClient: MCPClientService, model: string = config.perplexityModel) {
+    super(config, mcpClient);
+    this.model = model;
 
     this.client = axios.create({
       baseURL: config.perplexityApiBaseUrl || 'https://api.perplexity.ai',
@@ -39,164 +41,139 @@ export class PerplexityService extends BaseAIService {
     return this.model;
   }
 
-  async chat(messages: ChatMessage[], userMessage: string, salesforceAuth?: any, recordContext?: any): Promise<string> {
+  protected async callModel(request: ModelRequest, turn: ChatTurnContext): Promise<ModelReply> {
+    // Use Perplexity's documented server endpoint and messages format
+    const payload = this.buildPayload(request);
+
+    // Log a redacted preview of the payload (no API keys)
     try {
-      const tools = await this.getToolsForPerplexity();
+      const preview = {
+        model: payload.model,
+        messages: payload.messages.slice(-3), // last few messages
+        functions: (payload.function || []).map((t: any) => t.function?.name || t.name || '<unknown>'),
+      };
+      console.log('[Perplexity] Request payload preview:', JSON.stringify(preview));
+    } catch (e) {
+      // ignore logging errors
+    }
 
-      let enhancedUserMessage = userMessage;
-      if (recordContext) {
-        enhancedUserMessage = this.formatRecordContext(recordContext) + userMessage;
-        console.log(`📋 [Perplexity] Record context included for ${recordContext.objectApiName} (${recordContext.recordId})`);
+    const response = await this.postCompletion(payload, turn);
+
+    // Perplexity may indicate tool calls via finish_reason or by returning
+    // structured tool_calls in different fields. Be tolerant and look in
+    // several places.
+    const message = response.data?.choices?.[0]?.message || response.data?.message || response.data?.choices?.[0];
+
+    // Try to find structured tool_calls first
+    let toolCalls = message?.tool_calls || message?.toolCalls || [];
+
+    // If none found, attempt to parse a JSON block that represents a tool call
+    if ((!toolCalls || toolCalls.length === 0) && typeof message?.content === 'string') {
+      // look for a JSON object that contains name and arguments
+      const jsonMatch = message.content.match(/\{\s*"name"\s*:\s*"[^"]+"[\s\S]*\}/m);
+      if (jsonMatch) {
+        try {
+          const parsed = JSON.parse(jsonMatch[0]);
+          // support single call or an array
+          if (Array.isArray(parsed)) toolCalls = parsed;
+          else toolCalls = [parsed];
+        } catch (e) {
+          // ignore parse errors
+        }
       }
+    }
 
-      const conversation = [
-        {
-          role: 'system',
-          content: this.getSystemPrompt(),
-        },
-        ...messages.map(m => ({ role: m.role, content: m.content })),
-        { role: 'user', content: enhancedUserMessage },
-      ];
-
-      console.log(`[Perplexity] Sending message (len=${enhancedUserMessage.length}) with ${tools.length} tools available`);
-
-      // Use Perplexity's documented server endpoint and messages format
-      const payload = {
-        model: this.model,
-        messages: conversation.map((m: any) => ({ role: m.role, content: m.content })),
-        // Perplexity expects the functions under the `function` key and
-        // the auto-invoke flag named `function_call` (not `tools`/`tool_choice`).
-        function: tools,
-        // ask Perplexity to automatically decide when to call functions
-        function_call: 'auto',
-        temperature: 0.7,
-      };
-
-      // Log a redacted preview of the payload (no API keys)
+    const parsedCalls = (toolCalls || []).map((call: any) => {
+      const toolName = call.name || call.function?.name;
+      let toolArgs = {};
       try {
-        const preview = {
-          model: payload.model,
-          messages: payload.messages.slice(-3), // last few messages
-          functions: payload.function
-            ? payload.function.map((t: any) => ({
-                name: t.function?.name || t.name || '<unknown>',
-                description: t.function?.description || t.description || '',
-                parameters: t.function?.parameters || t.parameters || {},
-              }))
-            : [],
-        };
-        console.log('[Perplexity] Request payload preview:', JSON.stringify(preview));
+        const rawArgs = call.arguments ?? call.function?.arguments;
+        if (typeof rawArgs === 'string') {
+          toolArgs = rawArgs ? JSON.parse(rawArgs) : {};
+        } else if (rawArgs && typeof rawArgs === 'object') {
+          toolArgs = rawArgs;
+        }
       } catch (e) {
-        // ignore logging errors
+        toolArgs = {};
       }
 
-      let response = await this.client.post('/chat/completions', payload);
+      // Results are matched to calls by ID, so make one up when Perplexity omits it
+      return { id: call.id || `call_${uuidv4()}`, name: toolName, arguments: toolArgs };
+    }).filter((call: any) => !!call.name);
 
-
-      let iteration = 0;
-      const maxIterations = 10;
-
-      // Simple agentic loop: if Perplexity returns tool_calls, execute them
-      // Perplexity may indicate tool calls via finish_reason or by returning
-      // structured tool_calls in different fields. Be tolerant and look in
-      // several places.
-      while (iteration < maxIterations) {
-        iteration++;
-  const message = response.data?.choices?.[0]?.message || response.data?.message || response.data?.choices?.[0];
-
-  // Try to find structured tool_calls first
-  let toolCalls = message?.tool_calls || message?.toolCalls || [];
-
-  // If none found, attempt to parse a JSON block that represents a tool call
-  if ((!toolCalls || toolCalls.length === 0) && typeof message?.content === 'string') {
-    // look for a JSON object that contains name and arguments
-    const jsonMatch = message.content.match(/\{\s*"name"\s*:\s*"[^"]+"[\s\S]*\}/m);
-    if (jsonMatch) {
-      try {
-        const parsed = JSON.parse(jsonMatch[0]);
-        // support single call or an array
-        if (Array.isArray(parsed)) toolCalls = parsed;
-        else toolCalls = [parsed];
-      } catch (e) {
-        // ignore parse errors
-      }
-    }
+    // Perplexity returns assistant content at choices[0].message.content
+    const text = response.data?.choices?.[0]?.message?.content || response.data?.choices?.[0]?.content || response.data?.message?.content || response.data?.text || '';
+    return { text, toolCalls: parsedCalls, usage: chatCompletionUsage(response.data?.usage) };
   }
 
-  if (!toolCalls || toolCalls.length === 0) break;
-
-        console.log(`[Perplexity] Iteration ${iteration}: processing ${toolCalls.length} tool calls`);
-
-        // Append assistant message to conversation
-        conversation.push({ role: 'assistant', content: message.content || '' });
-
-        for (const call of toolCalls) {
-          const toolName = call.name || call.function?.name;
-          let toolArgs = {};
-          try {
-            if (typeof call.arguments === 'string') {
-              toolArgs = call.arguments ? JSON.parse(call.arguments) : {};
-            } else if (call.arguments && typeof call.arguments === 'object') {
-              toolArgs = call.arguments;
-            } else if (call.function && call.function.arguments) {
-              toolArgs = call.function.arguments;
-            }
-          } catch (e) {
-            toolArgs = {};
+  private buildPayload(request: ModelRequest) {
+    return {
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        ...request.messages.map(m => ({
+          role: m.role,
+          content: m.content,
+          ...(m.tool_calls ? { tool_calls: m.tool_calls } : {}),
+          ...(m.tool_call_id ? { tool_call_id: m.tool_call_id } : {}),
+        })),
+      ],
+      // Perplexity expects the functions under the `function` key and
+      // the auto-invoke flag named `function_call` (not `tools`/`tool_choice`).
+      ...(request.tools.length > 0
+        ? {
+            function: this.toPerplexityTools(request.tools),
+            // ask Perplexity to automatically decide when to call functions
+            function_call: request.toolChoice ?? 'auto',
           }
+        : {}),
+      temperature: 0.7,
+    };
+  }
 
-          const toolResult = await this.executeTool(toolName, toolArgs, salesforceAuth);
-
-          conversation.push({ role: 'tool', content: typeof toolResult === 'string' ? toolResult : JSON.stringify(toolResult) } as any);
-        }
-
-        // Continue using the completions endpoint so Perplexity can continue tool-driven turns
-        const followUpPayload = {
-          model: this.model,
-          messages: conversation.map((m: any) => ({ role: m.role, content: m.content })),
-          function: tools,
-          function_call: 'auto',
-          temperature: 0.7,
-        };
-
-        response = await this.client.post('/chat/completions', followUpPayload);
-      }
-
-      if (iteration >= maxIterations) {
-        return 'I apologize, but I reached the maximum number of steps while processing your request. Please try simplifying your request.';
-      }
-
-  // Perplexity returns assistant content at choices[0].message.content
-  const finalText = response.data?.choices?.[0]?.message?.content || response.data?.choices?.[0]?.content || response.data?.message?.content || response.data?.text;
-  return finalText || 'I processed your request but had no response to provide.';
-    } catch (error: any) {
-      console.error('[Perplexity] Error:', error.response?.data || error.message);
+  protected toServiceError(error: any): Error {
+    console.error('[Perplexity] Error:', error.response?.data || error.message);
 
-      const status = error.response?.status;
-      if (status === 401) {
-        throw new Error('Invalid Perplexity API key (401). Please check your PERPLEXITY_API_KEY environment variable.');
-      }
-
-      if (status === 403) {
-        // 403 can mean the key is not authorized for the endpoint or plan restrictions
-        const body = error.response?.data;
-        let details = '';
-        try { details = JSON.stringify(body); } catch(e) { details = String(body); }
-        throw new Error(`Perplexity API access denied (403). Response: ${details}`);
-      }
+    const status = error.response?.status;
+    if (status === 401) {
+      return new Error('Invalid Perplexity API key (401). Please check your PERPLEXITY_API_KEY environment variable.');
+    }
 
-      if (status === 429) {
-        throw new Error('Rate limit exceeded (429). Please try again in a moment.');
-      }
+    if (status === 403) {
+      // 403 can mean the key is not authorized for the endpoint or plan restrictions
+      const body = error.response?.data;
+      let details = '';
+      try { details = JSON.stringify(body); } catch(e) { details = String(body); }
+      return new Error(`Perplexity API access denied (403). Response: ${details}`);
+    }
 
-      throw new Error(`Perplexity API error: ${error.message}`);
+    if (status === 429) {
+      return new Error('Rate limit exceeded (429). Please try again in a moment.');
     }
+
+    return new Error(`Perplexity API error: ${error.message}`);
   }
 
+  /**
+   * POST to /chat/completions, streaming text deltas when a listener is attached
+   * Always resolves to an object with the non-streaming `data` shape
+   */
+  private async postCompletion(payload: Record<string, any>, turn: ChatTurnContext): Promise<{ data: any }> {
+    if (!turn.onEvent) {
+      return this.client.post('/chat/completions', payload);
+    }
 
-  private async getToolsForPerplexity(): Promise<any[]> {
-    const mcpTools = await this.mcpClient.listTools();
+    const onEvent = turn.onEvent;
+    const response = await this.client.post(
+      '/chat/completions',
+      { ...payload, stream: true },
+      { responseType: 'stream' }
+    );
+    const data = await collectChatCompletionStream(response.data, (delta) => onEvent({ type: 'text', delta }));
+    return { data };
+  }
 
+  private toPerplexityTools(mcpTools: MCPTool[]): any[] {
     return mcpTools.map((tool: any) => ({
       type: 'function',
       function: {
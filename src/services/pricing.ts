@@ -0,0 +1,123 @@
+import { readFileSync } from 'fs';
+import { TokenUsage } from '../types/index.js';
+
+/**
+ * Price of a model in USD per million tokens
+ * `cachedInput` applies to input tokens served from the provider's prompt cache and
+ * `cacheWrite` to input tokens written to it; both default to the normal input price.
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cachedInput?: number;
+  cacheWrite?: number;
+}
+
+/**
+ * Built-in list prices by model name pattern (`*` is a wildcard); first match wins
+ * Override or extend them with MODEL_PRICES_FILE; deployments with custom names
+ * (Azure, self-hosted) only get a cost once they are listed there.
+ */
+const DEFAULT_MODEL_PRICES: Array<[string, ModelPrice]> = [
+  ['*:free', { input: 0, output: 0 }],
+  // Anthropic bills prompt cache writes at 1.25 times the input price
+  ['claude-3-5-haiku*', { input: 0.8, output: 4, cachedInput: 0.08, cacheWrite: 1 }],
+  ['claude-3-haiku*', { input: 0.25, output: 1.25, cachedInput: 0.03, cacheWrite: 0.3 }],
+  ['claude-haiku-4*', { input: 1, output: 5, cachedInput: 0.1, cacheWrite: 1.25 }],
+  ['claude-3-opus*', { input: 15, output: 75, cachedInput: 1.5, cacheWrite: 18.75 }],
+  ['claude-opus-4-5*', { input: 5, output: 25, cachedInput: 0.5, cacheWrite: 6.25 }],
+  ['claude-opus-4*', { input: 15, output: 75, cachedInput: 1.5, cacheWrite: 18.75 }],
+  ['claude-*sonnet*', { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 }],
+  ['gpt-5-nano*', { input: 0.05, output: 0.4, cachedInput: 0.005 }],
+  ['gpt-5-mini*', { input: 0.25, output: 2, cachedInput: 0.025 }],
+  ['gpt-5*', { input: 1.25, output: 10, cachedInput: 0.125 }],
+  ['gpt-4.1-nano*', { input: 0.1, output: 0.4, cachedInput: 0.025 }],
+  ['gpt-4.1-mini*', { input: 0.4, output: 1.6, cachedInput: 0.1 }],
+  ['gpt-4.1*', { input: 2, output: 8, cachedInput: 0.5 }],
+  ['gpt-4o-mini*', { input: 0.15, output: 0.6, cachedInput: 0.075 }],
+  ['gpt-4o*', { input: 2.5, output: 10, cachedInput: 1.25 }],
+  ['gemini-2.5-pro*', { input: 1.25, output: 10, cachedInput: 0.31 }],
+  ['gemini-2.5-flash-lite*', { input: 0.1, output: 0.4, cachedInput: 0.025 }],
+  ['gemini-2.5-flash*', { input: 0.3, output: 2.5, cachedInput: 0.075 }],
+  ['gemini-2.0-flash*', { input: 0.1, output: 0.4, cachedInput: 0.025 }],
+  ['sonar-pro*', { input: 3, output: 15 }],
+  ['sonar*', { input: 1, output: 1 }],
+];
+
+/**
+ * Looks up model prices and turns token counts into a cost
+ */
+export class PriceTable {
+  private entries: Array<{ pattern: RegExp; price: ModelPrice }>;
+
+  /**
+   * @param overrides - Model pattern to price; checked before the built-in prices
+   */
+  constructor(overrides: Record<string, ModelPrice> = {}) {
+    this.entries = [...Object.entries(overrides), ...DEFAULT_MODEL_PRICES].map(([pattern, price]) => ({
+      pattern: wildcardPattern(pattern),
+      price,
+    }));
+  }
+
+  /**
+   * Price of a model; vendor-prefixed IDs such as OpenRouter's `anthropic/claude-3.5-sonnet`
+   * fall back to the part after the last slash
+   */
+  getPrice(model: string): ModelPrice | undefined {
+    const baseName = model.slice(model.lastIndexOf('/') + 1);
+    return this.entries.find(entry => entry.pattern.test(model))?.price ??
+      this.entries.find(entry => entry.pattern.test(baseName))?.price;
+  }
+
+  /**
+   * Cost in USD, or undefined when the model has no price
+   */
+  getCost(model: string, usage: TokenUsage): number | undefined {
+    const price = this.getPrice(model);
+    if (!price) {
+      return undefined;
+    }
+
+    const uncachedInput = Math.max(0, usage.inputTokens - usage.cachedInputTokens - usage.cacheWriteTokens);
+    const cost = (
+      uncachedInput * price.input +
+      usage.cachedInputTokens * (price.cachedInput ?? price.input) +
+      usage.cacheWriteTokens * (price.cacheWrite ?? price.input) +
+      usage.outputTokens * price.output
+    ) / 1_000_000;
+
+    // Round away floating point noise; a millionth of a dollar is plenty
+    return Math.round(cost * 1_000_000) / 1_000_000;
+  }
+}
+
+/**
+ * Load the price table, reading overrides from a JSON file of `{ "<model pattern>": { input, output, cachedInput?, cacheWrite? } }`
+ */
+export function loadPriceTable(pricesFile?: string): PriceTable {
+  if (!pricesFile) {
+    return new PriceTable();
+  }
+
+  let overrides: Record<string, ModelPrice>;
+  try {
+    overrides = JSON.parse(readFileSync(pricesFile, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read MODEL_PRICES_FILE ${pricesFile}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  for (const [pattern, price] of Object.entries(overrides)) {
+    if (typeof price?.input !== 'number' || typeof price?.output !== 'number') {
+      throw new Error(`MODEL_PRICES_FILE entry "${pattern}" needs numeric "input" and "output" prices`);
+    }
+  }
+
+  console.log(`Loaded ${Object.keys(overrides).length} model prices from ${pricesFile}`);
+  return new PriceTable(overrides);
+}
+
+function wildcardPattern(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
@@ -0,0 +1,169 @@
+import { readFileSync } from 'fs';
+import { Config, QuotaLimits } from '../config/config.js';
+import { QuotaAllowance, UsageRecord } from '../types/index.js';
+import { UsageTracker, toUsageDay } from './usageTracker.js';
+
+/**
+ * Per-user and per-org limits that replace the defaults field by field
+ */
+export interface QuotaOverrides {
+  users: Record<string, QuotaLimits>;
+  organizations: Record<string, QuotaLimits>;
+}
+
+const QUOTA_LIMIT_KEYS: Array<keyof QuotaLimits> = ['dailyTokens', 'dailyRequests', 'monthlyTokens', 'monthlyRequests'];
+
+/**
+ * Raised when a user or org has used up one of its quotas
+ */
+export class QuotaExceededError extends Error {
+  constructor(public quota: QuotaAllowance, public allowances: QuotaAllowance[]) {
+    const scope = quota.scope === 'user' ? 'User' : 'Organization';
+    const period = quota.period === 'day' ? 'daily' : 'monthly';
+    super(`${scope} ${period} ${quota.metric === 'tokens' ? 'token' : 'request'} quota of ${quota.limit} exceeded`);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * Enforces daily and monthly token/request quotas from the recorded usage
+ * A request is admitted while every quota has something left, so the turn that
+ * crosses a token limit still completes; the next one is rejected.
+ */
+export class QuotaService {
+  constructor(
+    private defaults: { user: QuotaLimits; organization: QuotaLimits },
+    private overrides: QuotaOverrides,
+    private usageTracker: UsageTracker
+  ) {}
+
+  /**
+   * Current state of every quota that applies to the user and org
+   */
+  async getAllowances(userId: string, organizationId: string): Promise<QuotaAllowance[]> {
+    const userLimits = { ...this.defaults.user, ...this.overrides.users[userId] };
+    const organizationLimits = { ...this.defaults.organization, ...this.overrides.organizations[organizationId] };
+    if (!hasLimits(userLimits) && !hasLimits(organizationLimits)) {
+      return [];
+    }
+
+    const now = Date.now();
+    const today = toUsageDay(now);
+    const { records } = await this.usageTracker.query({ organizationId, from: `${today.slice(0, 7)}-01`, to: today });
+
+    return [
+      ...toAllowances('user', userLimits, records.filter(record => record.userId === userId), today, now),
+      ...toAllowances('organization', organizationLimits, records, today, now),
+    ];
+  }
+
+  /**
+   * Throw a QuotaExceededError when any quota is used up
+   * @returns The allowances checked
+   */
+  async enforce(userId: string, organizationId: string): Promise<QuotaAllowance[]> {
+    const allowances = await this.getAllowances(userId, organizationId);
+    const exceeded = allowances.find(allowance => allowance.remaining <= 0);
+    if (exceeded) {
+      throw new QuotaExceededError(exceeded, allowances);
+    }
+    return allowances;
+  }
+}
+
+function hasLimits(limits: QuotaLimits): boolean {
+  return QUOTA_LIMIT_KEYS.some(key => !!limits[key]);
+}
+
+function toAllowances(
+  scope: QuotaAllowance['scope'],
+  limits: QuotaLimits,
+  records: UsageRecord[],
+  today: string,
+  now: number
+): QuotaAllowance[] {
+  const date = new Date(now);
+  const nextDay = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+  const nextMonth = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+
+  const todays = records.filter(record => record.day === today);
+  const quotas: Array<[number | undefined, QuotaAllowance['period'], QuotaAllowance['metric'], number, number]> = [
+    [limits.dailyTokens, 'day', 'tokens', sumTokens(todays), nextDay],
+    [limits.dailyRequests, 'day', 'requests', sumRequests(todays), nextDay],
+    [limits.monthlyTokens, 'month', 'tokens', sumTokens(records), nextMonth],
+    [limits.monthlyRequests, 'month', 'requests', sumRequests(records), nextMonth],
+  ];
+
+  return quotas
+    .filter(([limit]) => !!limit)
+    .map(([limit, period, metric, used, resetsAt]) => ({
+      scope,
+      period,
+      metric,
+      limit: limit!,
+      used,
+      remaining: Math.max(0, limit! - used),
+      resetsAt,
+    }));
+}
+
+function sumTokens(records: UsageRecord[]): number {
+  return records.reduce((sum, record) => sum + record.inputTokens + record.outputTokens, 0);
+}
+
+function sumRequests(records: UsageRecord[]): number {
+  return records.reduce((sum, record) => sum + record.requests, 0);
+}
+
+/**
+ * Read overrides from a JSON file of
+ * `{ "users": { "<userId>": { dailyTokens, ... } }, "organizations": { "<orgId>": { ... } } }`
+ */
+export function loadQuotaOverrides(overridesFile?: string): QuotaOverrides {
+  if (!overridesFile) {
+    return { users: {}, organizations: {} };
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(readFileSync(overridesFile, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read QUOTA_OVERRIDES_FILE ${overridesFile}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const overrides: QuotaOverrides = { users: parsed?.users ?? {}, organizations: parsed?.organizations ?? {} };
+  for (const [section, entries] of Object.entries(overrides)) {
+    for (const [id, limits] of Object.entries(entries as Record<string, QuotaLimits>)) {
+      for (const [key, value] of Object.entries(limits ?? {})) {
+        if (!QUOTA_LIMIT_KEYS.includes(key as keyof QuotaLimits) || !Number.isInteger(value) || (value as number) < 0) {
+          throw new Error(
+            `QUOTA_OVERRIDES_FILE ${section}.${id}.${key} is invalid; use ${QUOTA_LIMIT_KEYS.join(', ')} ` +
+            'with non-negative integers (0 means unlimited)'
+          );
+        }
+      }
+    }
+  }
+
+  console.log(
+    `Loaded quota overrides for ${Object.keys(overrides.users).length} users and ` +
+    `${Object.keys(overrides.organizations).length} organizations from ${overridesFile}`
+  );
+  return overrides;
+}
+
+/**
+ * Create the quota service from the QUOTA_* configuration
+ */
+export function createQuotaService(config: Config, usageTracker: UsageTracker): QuotaService {
+  const hasQuotas = hasLimits(config.userQuota) || hasLimits(config.organizationQuota) || !!config.quotaOverridesFile;
+  if (hasQuotas && config.usageStore === 'memory') {
+    console.warn('Quotas are configured with USAGE_STORE=memory; usage counts reset on every restart');
+  }
+
+  return new QuotaService(
+    { user: config.userQuota, organization: config.organizationQuota },
+    loadQuotaOverrides(config.quotaOverridesFile),
+    usageTracker
+  );
+}
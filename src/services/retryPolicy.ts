@@ -0,0 +1,178 @@
+import { Config } from '../config/config.js';
+
+export interface RetryOptions {
+  // Retries after the first attempt
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RetryContext {
+  // Epoch ms after which no new retry is started (the chat request's retry budget)
+  deadline?: number;
+  // Extra condition on top of the transient-error check, e.g. "nothing streamed yet"
+  canRetry?: (error: unknown) => boolean;
+}
+
+/**
+ * Counters for one retried operation, exposed on /health
+ */
+export interface RetryStats {
+  calls: number;
+  retries: number;
+  // Calls that failed at first and then succeeded
+  recovered: number;
+  // Calls that still failed after retrying
+  exhausted: number;
+}
+
+const TRANSIENT_NETWORK_CODES = ['ECONNABORTED', 'ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'ERR_NETWORK'];
+
+// Shared by every policy so /health reports one set of numbers per operation
+const retryStats = new Map<string, RetryStats>();
+
+/**
+ * Whether a raw SDK/HTTP error is transient: timeouts, rate limits, server errors and network failures
+ */
+export function isTransientError(error: any): boolean {
+  const status = error?.status ?? error?.response?.status;
+  if (typeof status === 'number') {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  return TRANSIENT_NETWORK_CODES.includes(error?.code) ||
+    error?.name === 'APIConnectionError' ||
+    error?.name === 'APIConnectionTimeoutError';
+}
+
+/**
+ * Delay requested by the server through `retry-after-ms` or `Retry-After` (seconds or HTTP date)
+ * Works with axios errors (error.response.headers) and Anthropic SDK errors (error.headers).
+ */
+export function getRetryAfterMs(error: any): number | undefined {
+  const headers = error?.response?.headers ?? error?.headers;
+  if (!headers) {
+    return undefined;
+  }
+
+  const read = (name: string): string | undefined => {
+    const value = typeof headers.get === 'function' ? headers.get(name) : headers[name];
+    return value === undefined || value === null ? undefined : String(value);
+  };
+
+  const retryAfterMs = Number(read('retry-after-ms'));
+  if (read('retry-after-ms') !== undefined && Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = read('retry-after');
+  if (retryAfter === undefined) {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Retry counters per operation, e.g. `llm:Anthropic` or `mcp:tools/call`
+ */
+export function getRetryStats(): Record<string, RetryStats> {
+  return Object.fromEntries(retryStats);
+}
+
+/**
+ * Retry options from the RETRY_* configuration
+ */
+export function retryOptionsFromConfig(config: Config): RetryOptions {
+  return {
+    maxRetries: config.retryMaxRetries,
+    baseDelayMs: config.retryBaseDelayMs,
+    maxDelayMs: config.retryMaxDelayMs,
+  };
+}
+
+/**
+ * Retries transient failures with exponential backoff and jitter
+ * A `Retry-After` from the server replaces the computed delay. No retry is started
+ * when its delay would end past the context's deadline, so one chat request never
+ * spends more than its retry budget waiting.
+ */
+export class RetryPolicy {
+  constructor(private options: RetryOptions) {}
+
+  async execute<T>(operation: string, fn: () => Promise<T>, context: RetryContext = {}): Promise<T> {
+    const stats = this.getStats(operation);
+    stats.calls++;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await fn();
+        if (attempt > 0) {
+          stats.recovered++;
+          console.log(`[Retry] ${operation} succeeded after ${attempt} ${attempt === 1 ? 'retry' : 'retries'}`);
+        }
+        return result;
+      } catch (error) {
+        if (!isTransientError(error) || (context.canRetry && !context.canRetry(error))) {
+          if (attempt > 0) stats.exhausted++;
+          throw error;
+        }
+
+        const delayMs = this.getDelayMs(attempt, error);
+        const outOfAttempts = attempt >= this.options.maxRetries;
+        const outOfTime = context.deadline !== undefined && Date.now() + delayMs > context.deadline;
+
+        if (outOfAttempts || outOfTime) {
+          stats.exhausted++;
+          console.warn(
+            `[Retry] ${operation} giving up after ${attempt + 1} ${attempt === 0 ? 'attempt' : 'attempts'}` +
+            ` (${outOfAttempts ? 'no retries left' : 'retry budget exceeded'}): ${describeError(error)}`
+          );
+          throw error;
+        }
+
+        stats.retries++;
+        console.warn(
+          `[Retry] ${operation} attempt ${attempt + 1}/${this.options.maxRetries + 1} failed: ${describeError(error)};` +
+          ` retrying in ${delayMs}ms`
+        );
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  /**
+   * Server-requested delay, otherwise exponential backoff with "equal jitter":
+   * half the backoff is fixed, the other half random
+   */
+  private getDelayMs(attempt: number, error: unknown): number {
+    const retryAfterMs = getRetryAfterMs(error);
+    if (retryAfterMs !== undefined) {
+      return Math.ceil(retryAfterMs);
+    }
+
+    const backoff = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+  }
+
+  private getStats(operation: string): RetryStats {
+    let stats = retryStats.get(operation);
+    if (!stats) {
+      stats = { calls: 0, retries: 0, recovered: 0, exhausted: 0 };
+      retryStats.set(operation, stats);
+    }
+    return stats;
+  }
+}
+
+function describeError(error: any): string {
+  const status = error?.status ?? error?.response?.status;
+  const reason = status ? `HTTP ${status}` : error?.code || error?.name;
+  return reason ? `${reason} ${error?.message ?? ''}`.trim() : String(error?.message ?? error);
+}
@@ -12,6 +12,8 @@ interface SalesforceUserInfoResponse {
   preferred_username?: string;
   email?: string;
   name?: string;
+  locale?: string;
+  zoneinfo?: string;
 }
 
 export class SalesforceAuthService {
@@ -65,6 +67,8 @@ export class SalesforceAuthService {
         organizationId: response.data.organization_id,
         email: response.data.email,
         displayName: response.data.name,
+        locale: response.data.locale,
+        timeZone: response.data.zoneinfo,
       };
 
       // Cache the result
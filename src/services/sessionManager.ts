@@ -1,64 +1,166 @@
-import { ChatSession, SalesforceAuth } from '../types/index.js';
+import { ChatSession, SalesforceAuth, SalesforceUserInfo, SessionMetadataUpdate, SessionSummary } from '../types/index.js';
+import { MemorySessionStore, SessionStore } from './sessionStore.js';
+
+const MAX_TITLE_LENGTH = 60;
 
 export class SessionManager {
-  private sessions: Map<string, ChatSession> = new Map();
   private cleanupInterval: NodeJS.Timeout;
 
-  constructor(private timeoutMs: number) {
+  constructor(private timeoutMs: number, private store: SessionStore = new MemorySessionStore()) {
     // Clean up expired sessions every minute
     this.cleanupInterval = setInterval(() => this.cleanupExpiredSessions(), 60000);
   }
 
-  createSession(sessionId: string, salesforceAuth?: SalesforceAuth): ChatSession {
+  async createSession(sessionId: string, salesforceAuth?: SalesforceAuth): Promise<ChatSession> {
     const session: ChatSession = {
       sessionId,
+      userId: salesforceAuth?.userInfo.userId,
+      organizationId: salesforceAuth?.userInfo.organizationId,
       messages: [],
       createdAt: Date.now(),
       lastActivityAt: Date.now(),
       salesforceAuth,
     };
-    this.sessions.set(sessionId, session);
+    await this.store.set(session);
     return session;
   }
 
-  getSession(sessionId: string): ChatSession | undefined {
-    const session = this.sessions.get(sessionId);
+  async getSession(sessionId: string): Promise<ChatSession | undefined> {
+    const session = await this.store.get(sessionId);
     if (session) {
       session.lastActivityAt = Date.now();
+      await this.store.set(session);
     }
     return session;
   }
 
-  updateSession(sessionId: string, session: ChatSession): void {
+  /**
+   * Look up a session without counting it as activity
+   */
+  async findSession(sessionId: string): Promise<ChatSession | undefined> {
+    return this.store.get(sessionId);
+  }
+
+  async updateSession(sessionId: string, session: ChatSession): Promise<void> {
     session.lastActivityAt = Date.now();
-    this.sessions.set(sessionId, session);
+    await this.store.set(session);
   }
 
-  updateSessionAuth(sessionId: string, salesforceAuth: SalesforceAuth): void {
-    const session = this.sessions.get(sessionId);
+  async updateSessionAuth(sessionId: string, salesforceAuth: SalesforceAuth): Promise<ChatSession | undefined> {
+    const session = await this.store.get(sessionId);
     if (session) {
       session.salesforceAuth = salesforceAuth;
       session.lastActivityAt = Date.now();
-      this.sessions.set(sessionId, session);
+      await this.store.set(session);
+    }
+    return session;
+  }
+
+  /**
+   * Check whether the caller owns a session
+   * Sessions created without Salesforce auth are only accessible to unauthenticated callers
+   */
+  isOwnedBy(session: ChatSession, salesforceAuth?: SalesforceAuth): boolean {
+    if (!session.userId) {
+      return !salesforceAuth;
+    }
+
+    return (
+      !!salesforceAuth &&
+      salesforceAuth.userInfo.userId === session.userId &&
+      salesforceAuth.userInfo.organizationId === session.organizationId
+    );
+  }
+
+  /**
+   * Profile of a Salesforce user as of their most recently active session
+   */
+  async findUserInfo(userId: string): Promise<SalesforceUserInfo | undefined> {
+    return (await this.store.list())
+      .filter(session => session.userId === userId && session.salesforceAuth)
+      .sort((a, b) => b.lastActivityAt - a.lastActivityAt)[0]
+      ?.salesforceAuth?.userInfo;
+  }
+
+  /**
+   * List the sessions owned by the caller, pinned first, then most recently active
+   * Does not count as activity on the listed sessions
+   */
+  async listSessions(salesforceAuth?: SalesforceAuth): Promise<SessionSummary[]> {
+    return (await this.store.list())
+      .filter(session => this.isOwnedBy(session, salesforceAuth))
+      .map(session => this.summarize(session))
+      .sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.lastActivityAt - a.lastActivityAt);
+  }
+
+  /**
+   * Rename or pin a session without touching its activity timestamp
+   * An empty title restores the title derived from the first message
+   */
+  async updateSessionMetadata(sessionId: string, update: SessionMetadataUpdate): Promise<ChatSession | undefined> {
+    const session = await this.store.get(sessionId);
+    if (!session) {
+      return undefined;
+    }
+
+    if (update.title !== undefined) {
+      const title = update.title.trim();
+      session.title = title ? title.substring(0, 200) : undefined;
+    }
+
+    if (update.pinned !== undefined) {
+      session.pinned = update.pinned;
+    }
+
+    await this.store.set(session);
+    return session;
+  }
+
+  summarize(session: ChatSession): SessionSummary {
+    return {
+      sessionId: session.sessionId,
+      title: session.title || this.deriveTitle(session),
+      pinned: !!session.pinned,
+      // Only count what the user sees in the chat, not the stored tool exchange
+      messageCount: session.messages.filter(msg => msg.role === 'user' || (msg.role === 'assistant' && !msg.tool_calls)).length,
+      createdAt: session.createdAt,
+      lastActivityAt: session.lastActivityAt,
+      ...(session.startedOnRecord ? { startedOnRecord: session.startedOnRecord } : {}),
+    };
+  }
+
+  /**
+   * Use the first user message, collapsed to one line, as the default title
+   */
+  private deriveTitle(session: ChatSession): string {
+    const firstMessage = session.messages.find(msg => msg.role === 'user');
+    if (!firstMessage) {
+      return 'New conversation';
     }
+
+    const text = firstMessage.content.replace(/\s+/g, ' ').trim() || 'New conversation';
+    return text.length > MAX_TITLE_LENGTH
+      ? `${text.substring(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+      : text;
   }
 
-  deleteSession(sessionId: string): void {
-    this.sessions.delete(sessionId);
+  async deleteSession(sessionId: string): Promise<void> {
+    await this.store.delete(sessionId);
   }
 
-  private cleanupExpiredSessions(): void {
-    const now = Date.now();
-    for (const [sessionId, session] of this.sessions.entries()) {
-      if (now - session.lastActivityAt > this.timeoutMs) {
+  private async cleanupExpiredSessions(): Promise<void> {
+    try {
+      const removed = await this.store.deleteInactiveSince(Date.now() - this.timeoutMs);
+      for (const sessionId of removed) {
         console.log(`Cleaning up expired session: ${sessionId}`);
-        this.sessions.delete(sessionId);
       }
+    } catch (error) {
+      console.error('Error cleaning up expired sessions:', error);
     }
   }
 
-  destroy(): void {
+  async destroy(): Promise<void> {
     clearInterval(this.cleanupInterval);
-    this.sessions.clear();
+    await this.store.close();
   }
 }
@@ -0,0 +1,216 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Config } from '../config/config.js';
+import { ChatSession } from '../types/index.js';
+
+// Paths under /api/chat that are routed before /:sessionId (Express matches them case-insensitively)
+const RESERVED_SESSION_IDS = new Set(['sessions', 'usage']);
+
+/**
+ * Session IDs come from clients, so only allow characters that are safe in a file name,
+ * and no ID whose history could not be fetched because a route shadows it
+ */
+export function isValidSessionId(sessionId: unknown): sessionId is string {
+  return typeof sessionId === 'string' &&
+    /^[A-Za-z0-9_-]{1,128}$/.test(sessionId) &&
+    !RESERVED_SESSION_IDS.has(sessionId.toLowerCase());
+}
+
+/**
+ * Storage backend for chat sessions
+ * Implementations must hand out copies or persist on set(): callers always
+ * write changes back through set().
+ */
+export interface SessionStore {
+  get(sessionId: string): Promise<ChatSession | undefined>;
+  set(session: ChatSession): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+  list(): Promise<ChatSession[]>;
+  /**
+   * Remove sessions whose last activity is older than the cutoff
+   * @returns IDs of the removed sessions
+   */
+  deleteInactiveSince(cutoff: number): Promise<string[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * Keeps sessions in process memory; everything is lost on restart
+ */
+export class MemorySessionStore implements SessionStore {
+  private sessions: Map<string, ChatSession> = new Map();
+
+  async get(sessionId: string): Promise<ChatSession | undefined> {
+    return this.sessions.get(sessionId);
+  }
+
+  async set(session: ChatSession): Promise<void> {
+    this.sessions.set(session.sessionId, session);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+
+  async list(): Promise<ChatSession[]> {
+    return Array.from(this.sessions.values());
+  }
+
+  async deleteInactiveSince(cutoff: number): Promise<string[]> {
+    const removed: string[] = [];
+    for (const [sessionId, session] of this.sessions.entries()) {
+      if (session.lastActivityAt < cutoff) {
+        this.sessions.delete(sessionId);
+        removed.push(sessionId);
+      }
+    }
+    return removed;
+  }
+
+  async close(): Promise<void> {
+    this.sessions.clear();
+  }
+}
+
+/**
+ * Stores one JSON file per session in a directory
+ * Survives restarts. Writes are serialized per session within the process; several
+ * instances must not share the directory. Salesforce access tokens are never written to disk.
+ */
+export class FileSessionStore implements SessionStore {
+  // Last pending write or delete of each session
+  private writes: Map<string, Promise<void>> = new Map();
+
+  constructor(private directory: string) {}
+
+  async get(sessionId: string): Promise<ChatSession | undefined> {
+    const filePath = this.filePath(sessionId);
+    if (!filePath) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8')) as ChatSession;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async set(session: ChatSession): Promise<void> {
+    const filePath = this.filePath(session.sessionId);
+    if (!filePath) {
+      throw new Error(`Invalid session ID: ${session.sessionId}`);
+    }
+
+    const { salesforceAuth, ...rest } = session;
+    const stored: ChatSession = salesforceAuth
+      ? { ...rest, salesforceAuth: { ...salesforceAuth, accessToken: '' } }
+      : rest;
+
+    const content = JSON.stringify(stored);
+    await this.serialize(session.sessionId, async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+
+      // Write to a temp file and rename so readers never see a partial file
+      const tempPath = `${filePath}.${process.pid}.${uuidv4()}.tmp`;
+      await fs.writeFile(tempPath, content, 'utf8');
+      await fs.rename(tempPath, filePath);
+    });
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    const filePath = this.filePath(sessionId);
+    if (!filePath) {
+      return;
+    }
+    await this.serialize(sessionId, () => fs.rm(filePath, { force: true }));
+  }
+
+  async list(): Promise<ChatSession[]> {
+    const sessions: ChatSession[] = [];
+    for (const sessionId of await this.sessionIds()) {
+      try {
+        const session = await this.get(sessionId);
+        if (session) sessions.push(session);
+      } catch (error) {
+        console.warn(`Skipping unreadable session file for ${sessionId}:`, error);
+      }
+    }
+    return sessions;
+  }
+
+  async deleteInactiveSince(cutoff: number): Promise<string[]> {
+    const removed: string[] = [];
+    for (const session of await this.list()) {
+      if (session.lastActivityAt < cutoff) {
+        await this.delete(session.sessionId);
+        removed.push(session.sessionId);
+      }
+    }
+    return removed;
+  }
+
+  async close(): Promise<void> {
+    // Files stay on disk for the next start; only wait for pending writes
+    await Promise.all(this.writes.values());
+  }
+
+  /**
+   * Run a write after the ones already pending for the same session, so the last call wins
+   */
+  private serialize(sessionId: string, task: () => Promise<void>): Promise<void> {
+    const write = (this.writes.get(sessionId) ?? Promise.resolve()).then(task);
+
+    // A failed write must not block the ones after it
+    const settled = write.catch(() => undefined);
+    this.writes.set(sessionId, settled);
+    settled.then(() => {
+      if (this.writes.get(sessionId) === settled) {
+        this.writes.delete(sessionId);
+      }
+    });
+    return write;
+  }
+
+  private async sessionIds(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.directory);
+      return entries
+        .filter(entry => entry.endsWith('.json'))
+        .map(entry => entry.slice(0, -'.json'.length));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private filePath(sessionId: string): string | null {
+    if (!isValidSessionId(sessionId)) {
+      return null;
+    }
+    return path.join(this.directory, `${sessionId}.json`);
+  }
+}
+
+/**
+ * Create the session store selected by SESSION_STORE
+ */
+export function createSessionStore(config: Config): SessionStore {
+  switch (config.sessionStore) {
+    case 'memory':
+      return new MemorySessionStore();
+
+    case 'file':
+      console.log(`Using file session store at ${path.resolve(config.sessionStoreDir)}`);
+      return new FileSessionStore(config.sessionStoreDir);
+
+    default:
+      throw new Error(`Unsupported session store: ${config.sessionStore}`);
+  }
+}
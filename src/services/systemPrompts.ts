@@ -0,0 +1,160 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SalesforceUserInfo } from '../types/index.js';
+
+/**
+ * Built-in base prompt, used when the template directory has no base.md
+ */
+const DEFAULT_SYSTEM_PROMPT = `You are an AI assistant integrated with Salesforce through the Model Context Protocol (MCP). You have access to various Salesforce tools that allow you to interact with Salesforce data and metadata.
+
+Important:
+- You are explicitly authorized to call available MCP tools to access the user's Salesforce org when necessary to fulfill the user's request.
+- It's very likely that the user will ask about Salesforce data or operations. So if you are uncertain of which system the user is referring to, you should not ask, just consider it to be Salesforce.
+
+When using tools:
+- Only call the minimum set of tools and request the minimum fields required to complete the task.
+- {{modificationRule}}
+- Include the raw tool result only if directly specified from the user.
+- Do not attempt to access or return any credentials or secrets.
+
+Your capabilities include:
+- Searching for Salesforce objects and describing their schemas
+- Querying records with support for relationships (SOQL)
+- Performing aggregate queries (COUNT, SUM, AVG, MIN, MAX with GROUP BY)
+- Creating, updating, and deleting records (DML operations)
+- Managing custom objects and fields
+- Configuring field-level security
+- Searching across multiple objects (SOSL)
+- Reading and writing Apex classes and triggers
+- Executing anonymous Apex code
+- Managing debug logs
+
+When a user asks about Salesforce data or operations:
+1. Carefully analyze what the user is asking for
+2. Determine which tool(s) are needed to fulfill the request
+3. Call the appropriate tools with correct parameters
+4. Interpret the results from the tools
+5. Present the information in a clear, user-friendly format
+6. If you need more information to complete a request, ask the user
+
+Guidelines:
+- You are likely to be interacting with a Business User or Salesforce Admin so avoid exposing technical details if not specified.
+- Always be helpful, accurate, and concise
+- Format your responses for readability in a chat interface
+- Use proper Salesforce terminology
+- If an operation fails, explain why and suggest alternatives
+- For queries, present data in a structured format (lists, tables, etc.)
+- When creating or modifying records, confirm the action taken
+
+Remember: You're helping users interact with their Salesforce org, so be precise and careful with data operations.`;
+
+// Salesforce org IDs are 15 or 18 alphanumeric characters; anything else never names a file
+const ORGANIZATION_ID_PATTERN = /^[a-zA-Z0-9]{15}([a-zA-Z0-9]{3})?$/;
+
+/**
+ * A system prompt with the layers it was built from, as shown by the admin preview
+ */
+export interface RenderedSystemPrompt {
+  prompt: string;
+  // Applied layers from the bottom up, e.g. ['built-in', 'deployment.md']
+  layers: string[];
+  variables: Record<string, string>;
+}
+
+/**
+ * Builds system prompts from layered template files
+ * Layers go built-in prompt, `base.md`, `deployment.md`, then
+ * `organizations/<orgId>.md`, all in the template directory. Each file that
+ * exists replaces the prompt below it and can include it with `{{parent}}`.
+ * Files are read on every call, so edits apply without a restart.
+ */
+export class SystemPromptTemplates {
+  constructor(private directory: string, private requireToolApproval: boolean) {}
+
+  async render(userInfo?: Partial<SalesforceUserInfo>, now: Date = new Date()): Promise<RenderedSystemPrompt> {
+    const variables = this.getVariables(userInfo, now);
+    const layers = ['built-in'];
+    let prompt = renderTemplate(DEFAULT_SYSTEM_PROMPT, variables);
+
+    const files = ['base.md', 'deployment.md'];
+    const organizationId = userInfo?.organizationId;
+    if (organizationId && ORGANIZATION_ID_PATTERN.test(organizationId)) {
+      // Accept files named after either form of the org ID
+      files.push(`organizations/${organizationId}.md`);
+      if (organizationId.length === 18) {
+        files.push(`organizations/${organizationId.slice(0, 15)}.md`);
+      }
+    }
+
+    let organizationLayerApplied = false;
+    for (const file of files) {
+      const isOrganizationLayer = file.startsWith('organizations/');
+      if (isOrganizationLayer && organizationLayerApplied) {
+        continue;
+      }
+
+      const template = await this.readTemplate(file);
+      if (template === undefined) {
+        continue;
+      }
+
+      prompt = renderTemplate(template, { ...variables, parent: prompt });
+      layers.push(file);
+      organizationLayerApplied ||= isOrganizationLayer;
+    }
+
+    return { prompt, layers, variables };
+  }
+
+  /**
+   * Values for `{{name}}` placeholders
+   */
+  private getVariables(userInfo: Partial<SalesforceUserInfo> | undefined, now: Date): Record<string, string> {
+    const timeZone = userInfo?.timeZone || 'UTC';
+    return {
+      userName: userInfo?.displayName || userInfo?.username || '',
+      username: userInfo?.username || '',
+      userId: userInfo?.userId || '',
+      email: userInfo?.email || '',
+      organizationId: userInfo?.organizationId || '',
+      locale: userInfo?.locale || 'en_US',
+      timeZone,
+      currentDate: formatDate(now, timeZone),
+      modificationRule: this.requireToolApproval
+        ? 'If an action will modify data (create/update/delete), call the tool directly: the user is asked to approve it before it runs.'
+        : 'If an action will modify data (create/update/delete), ask the user for explicit confirmation before proceeding.',
+    };
+  }
+
+  private async readTemplate(file: string): Promise<string | undefined> {
+    try {
+      return await fs.readFile(path.join(this.directory, file), 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return undefined;
+      }
+      throw new Error(`Could not read system prompt template ${file}: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Replace `{{name}}` placeholders in one pass, so values are never expanded again
+ * Unknown names are left as they are, which makes typos visible in the preview.
+ */
+function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder
+  );
+}
+
+/**
+ * YYYY-MM-DD in the user's time zone, falling back to UTC for unknown zones
+ */
+function formatDate(date: Date, timeZone: string): string {
+  try {
+    return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+  } catch (e) {
+    return date.toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Decides which MCP tool calls must be approved by the user before they run
+ * Tool names are matched against configured patterns where `*` is a wildcard.
+ */
+export class ToolApprovalPolicy {
+  private patterns: RegExp[];
+
+  constructor(private enabled: boolean, toolPatterns: string[]) {
+    this.patterns = toolPatterns.map(pattern => {
+      const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+      return new RegExp(`^${escaped}$`, 'i');
+    });
+  }
+
+  /**
+   * Check whether a tool call needs explicit user approval
+   */
+  requiresApproval(toolName: string): boolean {
+    if (!this.enabled) {
+      return false;
+    }
+    return this.isMutating(toolName);
+  }
+
+  /**
+   * Check whether a tool modifies the org, whether or not approval is enabled
+   */
+  isMutating(toolName: string): boolean {
+    return this.patterns.some(pattern => pattern.test(toolName));
+  }
+}
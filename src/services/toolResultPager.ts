@@ -0,0 +1,274 @@
+import { v4 as uuidv4 } from 'uuid';
+import { MCPTool } from './mcpClient.js';
+
+/**
+ * Local tool the model calls to read more of a truncated result
+ */
+export const TOOL_RESULT_PAGE_TOOL = 'read_tool_result_page';
+
+// Room left in a page for the JSON around the rows or text
+const PAGE_OVERHEAD_CHARS = 500;
+// Full results kept at once; the oldest are dropped first
+const MAX_STORED_RESULTS = 200;
+const MAX_STORED_CHARS = 50_000_000;
+
+export interface ToolResultPagerOptions {
+  // Default result size limit in characters; 0 disables truncation
+  maxChars: number;
+  // Tool name pattern (`*` is a wildcard) to its own limit; first match wins, 0 means unlimited
+  limits: Record<string, number>;
+  // Records shown in a truncated record list and returned per page by default
+  previewRows: number;
+  // How long full results stay readable
+  ttlMs: number;
+}
+
+/**
+ * A full tool result kept server-side for paging
+ */
+interface StoredResult {
+  toolName: string;
+  // Salesforce user that ran the tool; only they can read it
+  ownerId?: string;
+  storedAt: number;
+  size: number;
+  records?: Record<string, unknown>[];
+  text?: string;
+}
+
+/**
+ * Results are shared by every service in the process, so a page can still be read
+ * after a request switches provider or model.
+ */
+const storedResults: Map<string, StoredResult> = new Map();
+let storedChars = 0;
+
+function storeResult(result: StoredResult, ttlMs: number): string {
+  const now = Date.now();
+  for (const [id, stored] of storedResults) {
+    // Map order is insertion order, so the oldest entries come first
+    const expired = now - stored.storedAt > ttlMs;
+    if (!expired && storedResults.size < MAX_STORED_RESULTS && storedChars + result.size <= MAX_STORED_CHARS) {
+      break;
+    }
+    storedResults.delete(id);
+    storedChars -= stored.size;
+  }
+
+  const resultId = uuidv4();
+  storedResults.set(resultId, result);
+  storedChars += result.size;
+  return resultId;
+}
+
+/**
+ * Keeps large MCP tool results out of the model context
+ * Results over the tool's size limit are replaced by a preview: record lists by the
+ * row count, field names and first rows, other text by its beginning. The full result
+ * stays in memory and the model reads the rest with the read_tool_result_page tool.
+ */
+export class ToolResultPager {
+  private limits: Array<{ pattern: RegExp; maxChars: number }>;
+
+  constructor(private options: ToolResultPagerOptions) {
+    this.limits = Object.entries(options.limits).map(([pattern, maxChars]) => {
+      const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+      return { pattern: new RegExp(`^${escaped}$`, 'i'), maxChars };
+    });
+  }
+
+  /**
+   * Whether any tool result can be truncated, i.e. whether the model needs the paging tool
+   */
+  isEnabled(): boolean {
+    return this.options.maxChars > 0 || this.limits.some(limit => limit.maxChars > 0);
+  }
+
+  /**
+   * Size limit for a tool's results in characters; 0 means unlimited
+   */
+  getLimit(toolName: string): number {
+    return this.limits.find(limit => limit.pattern.test(toolName))?.maxChars ?? this.options.maxChars;
+  }
+
+  /**
+   * Definition of the paging tool, offered next to the MCP tools
+   */
+  getPageTool(): MCPTool {
+    return {
+      name: TOOL_RESULT_PAGE_TOOL,
+      description:
+        'Read more of a tool result that was too large and was truncated. ' +
+        'Pass the resultId of the truncated result and the nextOffset it gave. ' +
+        'Offsets count records for record lists and characters for text.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          resultId: { type: 'string', description: 'resultId of the truncated tool result' },
+          offset: { type: 'integer', minimum: 0, description: 'Record or character to start at (default 0)' },
+          limit: {
+            type: 'integer',
+            minimum: 1,
+            description: `Records to return for record lists (default ${this.options.previewRows})`,
+          },
+        },
+        required: ['resultId'],
+      },
+    };
+  }
+
+  /**
+   * Replace a result over the tool's limit with a preview and store the full text
+   * @returns The text unchanged when it fits, otherwise the preview
+   */
+  limit(toolName: string, text: string, ownerId?: string): string | Record<string, unknown> {
+    const maxChars = this.getLimit(toolName);
+    if (!maxChars || text.length <= maxChars) {
+      return text;
+    }
+
+    const parsed = parseRecordList(text);
+    if (parsed) {
+      const resultId = storeResult(
+        { toolName, ownerId, storedAt: Date.now(), size: text.length, records: parsed.records },
+        this.options.ttlMs
+      );
+      const preview = this.recordPage(resultId, parsed.records, 0, this.options.previewRows, maxChars, parsed.properties);
+      if (preview) {
+        console.log(`[ToolResults] ${toolName} returned ${parsed.records.length} records (${text.length} characters); stored as ${resultId}`);
+        return preview;
+      }
+      // Not even one row fits; page through the raw text instead
+      storedResults.delete(resultId);
+      storedChars -= text.length;
+    }
+
+    const resultId = storeResult({ toolName, ownerId, storedAt: Date.now(), size: text.length, text }, this.options.ttlMs);
+    console.log(`[ToolResults] ${toolName} returned ${text.length} characters; stored as ${resultId}`);
+    return this.textPage(resultId, text, 0, maxChars);
+  }
+
+  /**
+   * Run the paging tool
+   * @returns The page, or `{ error }` for unknown, expired or foreign results
+   */
+  readPage(args: Record<string, unknown>, ownerId?: string): Record<string, unknown> {
+    const resultId = typeof args.resultId === 'string' ? args.resultId : '';
+    const stored = storedResults.get(resultId);
+    if (!stored || stored.ownerId !== ownerId || Date.now() - stored.storedAt > this.options.ttlMs) {
+      return { error: `No stored tool result "${resultId}". It may have expired; run the original tool again.` };
+    }
+
+    const offset = Number.isInteger(args.offset) && (args.offset as number) > 0 ? args.offset as number : 0;
+    const maxChars = this.getLimit(stored.toolName) || this.options.maxChars;
+
+    if (stored.records) {
+      if (offset >= stored.records.length) {
+        return { error: `Offset ${offset} is past the last of the ${stored.records.length} records` };
+      }
+      const limit = Number.isInteger(args.limit) && (args.limit as number) > 0 ? args.limit as number : this.options.previewRows;
+      return this.recordPage(resultId, stored.records, offset, limit, maxChars)
+        ?? this.recordPage(resultId, stored.records, offset, 1, Infinity)!;
+    }
+
+    const text = stored.text ?? '';
+    if (offset >= text.length) {
+      return { error: `Offset ${offset} is past the end of the ${text.length} characters` };
+    }
+    return this.textPage(resultId, text, offset, maxChars);
+  }
+
+  /**
+   * Up to `limit` records from `offset`, with fewer rows when they would not fit in maxChars
+   * @returns Undefined when not even one row fits
+   */
+  private recordPage(
+    resultId: string,
+    records: Record<string, unknown>[],
+    offset: number,
+    limit: number,
+    maxChars: number,
+    properties: Record<string, unknown> = {}
+  ): Record<string, unknown> | undefined {
+    const fields = Array.from(new Set(records.flatMap(record => Object.keys(record))));
+    let count = Math.min(limit, records.length - offset);
+
+    while (count > 0) {
+      const end = offset + count;
+      const page = {
+        ...(offset === 0 ? { truncated: true, ...properties } : {}),
+        resultId,
+        totalRows: records.length,
+        ...(offset === 0 ? { fields } : {}),
+        offset,
+        rows: records.slice(offset, end),
+        ...(end < records.length
+          ? {
+              nextOffset: end,
+              note: `Showing records ${offset + 1}-${end} of ${records.length}. ` +
+                `Call ${TOOL_RESULT_PAGE_TOOL} with this resultId and offset ${end} for more.`,
+            }
+          : {}),
+      };
+
+      if (JSON.stringify(page).length <= maxChars) {
+        return page;
+      }
+      count = Math.floor(count / 2);
+    }
+
+    return undefined;
+  }
+
+  private textPage(resultId: string, text: string, offset: number, maxChars: number): Record<string, unknown> {
+    const end = Math.min(text.length, offset + Math.max(maxChars - PAGE_OVERHEAD_CHARS, Math.ceil(maxChars / 2)));
+    return {
+      ...(offset === 0 ? { truncated: true } : {}),
+      resultId,
+      totalChars: text.length,
+      offset,
+      text: text.slice(offset, end),
+      ...(end < text.length
+        ? {
+            nextOffset: end,
+            note: `Showing characters ${offset}-${end} of ${text.length}. ` +
+              `Call ${TOOL_RESULT_PAGE_TOOL} with this resultId and offset ${end} for more.`,
+          }
+        : {}),
+    };
+  }
+}
+
+/**
+ * Records of a JSON record list: an array of objects, or an object with a `records`
+ * array (the Salesforce query shape, whose other scalar properties such as
+ * `totalSize` and `done` are kept). Salesforce `attributes` are dropped from each record.
+ */
+function parseRecordList(text: string): { records: Record<string, unknown>[]; properties: Record<string, unknown> } | undefined {
+  const trimmed = text.trimStart();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    return undefined;
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    return undefined;
+  }
+
+  const records = Array.isArray(parsed) ? parsed : parsed?.records;
+  if (!Array.isArray(records) || records.length === 0 ||
+    !records.every(record => record && typeof record === 'object' && !Array.isArray(record))) {
+    return undefined;
+  }
+
+  const properties = Array.isArray(parsed)
+    ? {}
+    : Object.fromEntries(Object.entries(parsed).filter(([, value]) => value === null || typeof value !== 'object'));
+
+  return {
+    records: records.map(({ attributes, ...fields }: Record<string, unknown>) => fields),
+    properties,
+  };
+}
@@ -0,0 +1,151 @@
+import { MCPTool } from './mcpClient.js';
+
+// BM25 term saturation and document length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Tool names are the strongest signal, so their terms count this many times
+const NAME_WEIGHT = 3;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'for', 'from', 'how', 'i', 'in', 'is',
+  'it', 'me', 'my', 'of', 'on', 'or', 'our', 'please', 'that', 'the', 'this', 'to', 'us', 'we', 'what',
+  'which', 'with', 'you', 'your',
+]);
+
+/**
+ * Lowercase word stems of a text; snake_case and camelCase names are split into words
+ */
+function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Strip plural endings so "records" matches "record" and "queries" matches "query"
+ */
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (word.endsWith('sses')) {
+    return word.slice(0, -2);
+  }
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * Terms a tool is found by: its name, description and parameter names and descriptions
+ */
+function toolTerms(tool: MCPTool): string[] {
+  const nameTerms = tokenize(tool.name);
+  const parameters = Object.entries(tool.inputSchema?.properties ?? {})
+    .map(([name, schema]) => `${name} ${typeof schema?.description === 'string' ? schema.description : ''}`)
+    .join(' ');
+
+  return [
+    ...Array.from({ length: NAME_WEIGHT }, () => nameTerms).flat(),
+    ...tokenize(tool.description || ''),
+    ...tokenize(parameters),
+  ];
+}
+
+/**
+ * Sends the model only the tools relevant to a request
+ * Tools are ranked with BM25 against the user message; the top K are sent together
+ * with the always-on tools and any tool the conversation already used. Ranking is
+ * local keyword matching, so it needs no network and no extra model call.
+ */
+export class ToolSelector {
+  private alwaysOn: RegExp[];
+
+  /**
+   * @param topK - Ranked tools to send; 0 sends every tool
+   * @param alwaysOnPatterns - Tool names (`*` is a wildcard) sent whatever their rank
+   */
+  constructor(private topK: number, alwaysOnPatterns: string[]) {
+    this.alwaysOn = alwaysOnPatterns.map(pattern => {
+      const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+      return new RegExp(`^${escaped}$`, 'i');
+    });
+  }
+
+  /**
+   * Tools to offer for a request
+   * @param query - Text the tools are ranked against (user message and record context)
+   * @param usedTools - Tools called earlier in the conversation; always kept
+   */
+  select(tools: MCPTool[], query: string, usedTools: string[] = []): MCPTool[] {
+    if (this.topK <= 0 || tools.length <= this.topK) {
+      return tools;
+    }
+
+    const kept = new Set(
+      tools
+        .filter(tool => usedTools.includes(tool.name) || this.alwaysOn.some(pattern => pattern.test(tool.name)))
+        .map(tool => tool.name)
+    );
+
+    const ranked = this.rank(tools.filter(tool => !kept.has(tool.name)), query)
+      .filter(entry => entry.score > 0)
+      .slice(0, this.topK);
+
+    if (ranked.length === 0) {
+      console.log(`[ToolSelection] No tool matches "${preview(query)}"; sending all ${tools.length} tools`);
+      return tools;
+    }
+
+    const selected = new Set([...kept, ...ranked.map(entry => entry.tool.name)]);
+    console.log(
+      `[ToolSelection] Sending ${selected.size} of ${tools.length} tools for "${preview(query)}": ` +
+      ranked.map(entry => `${entry.tool.name} (${entry.score.toFixed(2)})`).join(', ') +
+      (kept.size > 0 ? `; always on or used before: ${Array.from(kept).join(', ')}` : '')
+    );
+
+    // Keep the server's order so the tool list (and provider prompt caches) stay stable
+    return tools.filter(tool => selected.has(tool.name));
+  }
+
+  /**
+   * BM25 score of every tool against the query, best first
+   */
+  private rank(tools: MCPTool[], query: string): Array<{ tool: MCPTool; score: number }> {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const documents = tools.map(tool => {
+      const counts = new Map<string, number>();
+      const terms = toolTerms(tool);
+      for (const term of terms) {
+        counts.set(term, (counts.get(term) ?? 0) + 1);
+      }
+      return { tool, counts, length: terms.length };
+    });
+
+    const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / (documents.length || 1);
+    const idf = new Map(queryTerms.map(term => {
+      const documentFrequency = documents.filter(doc => doc.counts.has(term)).length;
+      return [term, Math.log(1 + (documents.length - documentFrequency + 0.5) / (documentFrequency + 0.5))];
+    }));
+
+    return documents
+      .map(doc => ({
+        tool: doc.tool,
+        score: queryTerms.reduce((score, term) => {
+          const frequency = doc.counts.get(term) ?? 0;
+          const normalization = BM25_K1 * (1 - BM25_B + BM25_B * doc.length / (averageLength || 1));
+          return score + idf.get(term)! * frequency * (BM25_K1 + 1) / (frequency + normalization);
+        }, 0),
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+}
+
+function preview(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > 80 ? `${singleLine.substring(0, 80)}...` : singleLine;
+}
@@ -0,0 +1,54 @@
+const REDACTED = '[REDACTED]';
+const SENSITIVE_KEY_PATTERN = /token|secret|password|passwd|authorization|api[-_]?key|credential|session[-_]?id/i;
+const MAX_ARGUMENT_STRING_LENGTH = 500;
+const RESULT_PREVIEW_LENGTH = 500;
+
+/**
+ * Copy tool arguments for display, masking values of credential-like keys
+ * and shortening long strings (e.g. Apex bodies)
+ */
+export function sanitizeToolArguments(args: Record<string, unknown>): Record<string, unknown> {
+  const sanitize = (value: unknown, key?: string): unknown => {
+    if (key && SENSITIVE_KEY_PATTERN.test(key)) {
+      return REDACTED;
+    }
+
+    if (typeof value === 'string') {
+      return truncate(value, MAX_ARGUMENT_STRING_LENGTH);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => sanitize(item));
+    }
+
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, sanitize(v, k)])
+      );
+    }
+
+    return value;
+  };
+
+  return sanitize(args ?? {}) as Record<string, unknown>;
+}
+
+/**
+ * Short text preview of a tool result for the trace
+ */
+export function previewToolResult(result: unknown): string {
+  let text: string;
+  try {
+    text = typeof result === 'string' ? result : JSON.stringify(result) ?? '';
+  } catch (e) {
+    text = String(result);
+  }
+  return truncate(text, RESULT_PREVIEW_LENGTH);
+}
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  return `${text.substring(0, maxLength)}… (${text.length - maxLength} more characters)`;
+}
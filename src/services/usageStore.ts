@@ -0,0 +1,215 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Config } from '../config/config.js';
+import { UsageRecord } from '../types/index.js';
+
+/**
+ * Storage backend for LLM usage, kept as one record per day, user and provider/model
+ */
+export interface UsageStore {
+  /**
+   * Add to the record with the same day, user, org, provider and model, creating it if needed
+   */
+  add(record: UsageRecord): Promise<void>;
+  /**
+   * Records whose day lies in the inclusive range (YYYY-MM-DD)
+   */
+  list(fromDay: string, toDay: string): Promise<UsageRecord[]>;
+  close(): Promise<void>;
+}
+
+function recordKey(record: UsageRecord): string {
+  return [record.day, record.userId, record.organizationId, record.provider, record.model].join('\u0000');
+}
+
+function addInto(target: UsageRecord, record: UsageRecord): void {
+  target.requests += record.requests;
+  target.llmCalls += record.llmCalls;
+  target.inputTokens += record.inputTokens;
+  target.outputTokens += record.outputTokens;
+  target.cachedInputTokens += record.cachedInputTokens;
+  target.cacheWriteTokens += record.cacheWriteTokens;
+  // Round away floating point noise from summing many small costs
+  target.cost = Math.round((target.cost + record.cost) * 1_000_000) / 1_000_000;
+  target.unpricedRequests += record.unpricedRequests;
+}
+
+/**
+ * Keeps usage in process memory; everything is lost on restart
+ */
+export class MemoryUsageStore implements UsageStore {
+  private records: Map<string, UsageRecord> = new Map();
+
+  async add(record: UsageRecord): Promise<void> {
+    const key = recordKey(record);
+    const existing = this.records.get(key);
+    if (existing) {
+      addInto(existing, record);
+    } else {
+      this.records.set(key, { ...record });
+    }
+  }
+
+  async list(fromDay: string, toDay: string): Promise<UsageRecord[]> {
+    return Array.from(this.records.values())
+      .filter(record => record.day >= fromDay && record.day <= toDay)
+      .map(record => ({ ...record }));
+  }
+
+  async close(): Promise<void> {
+    this.records.clear();
+  }
+}
+
+/**
+ * Stores usage in one JSON file per month (`usage-YYYY-MM.json`)
+ * Months are loaded on first use and written back after every change. Writes are
+ * serialized per process; several instances must not share the directory.
+ */
+export class FileUsageStore implements UsageStore {
+  private months: Map<string, Promise<Map<string, UsageRecord>>> = new Map();
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private directory: string) {}
+
+  async add(record: UsageRecord): Promise<void> {
+    const month = record.day.slice(0, 7);
+    const records = await this.loadMonth(month);
+
+    const key = recordKey(record);
+    const existing = records.get(key);
+    if (existing) {
+      addInto(existing, record);
+    } else {
+      records.set(key, { ...record });
+    }
+
+    await this.saveMonth(month, records);
+  }
+
+  async list(fromDay: string, toDay: string): Promise<UsageRecord[]> {
+    const result: UsageRecord[] = [];
+    for (const month of monthsBetween(fromDay.slice(0, 7), toDay.slice(0, 7))) {
+      for (const record of (await this.findMonth(month)).values()) {
+        if (record.day >= fromDay && record.day <= toDay) {
+          result.push({ ...record });
+        }
+      }
+    }
+    return result;
+  }
+
+  async close(): Promise<void> {
+    await this.writes;
+  }
+
+  /**
+   * Records of a month a record is added to; a month without a file starts empty
+   */
+  private loadMonth(month: string): Promise<Map<string, UsageRecord>> {
+    let loaded = this.months.get(month);
+    if (!loaded) {
+      loaded = this.readMonth(month).then(records => records ?? new Map());
+      this.months.set(month, loaded);
+    }
+    return loaded;
+  }
+
+  /**
+   * Records of a queried month
+   * Months without a file are not cached, so a long range does not fill the cache.
+   */
+  private async findMonth(month: string): Promise<Map<string, UsageRecord>> {
+    const cached = this.months.get(month);
+    if (cached) {
+      return cached;
+    }
+
+    const records = await this.readMonth(month);
+    if (!records) {
+      return new Map();
+    }
+
+    // A record may have been added while the file was read; that copy is newer
+    if (!this.months.has(month)) {
+      this.months.set(month, Promise.resolve(records));
+    }
+    return this.months.get(month)!;
+  }
+
+  /**
+   * @returns Undefined when the month has no file
+   */
+  private async readMonth(month: string): Promise<Map<string, UsageRecord> | undefined> {
+    try {
+      const records = JSON.parse(await fs.readFile(this.filePath(month), 'utf8')) as UsageRecord[];
+      return new Map(records.map(record => {
+        // Records written before cache writes were counted have no cacheWriteTokens
+        record.cacheWriteTokens ??= 0;
+        return [recordKey(record), record];
+      }));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private saveMonth(month: string, records: Map<string, UsageRecord>): Promise<void> {
+    const write = this.writes.then(async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+
+      // Write to a temp file and rename so readers never see a partial file
+      const filePath = this.filePath(month);
+      const tempPath = `${filePath}.${process.pid}.${uuidv4()}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(Array.from(records.values())), 'utf8');
+      await fs.rename(tempPath, filePath);
+    });
+
+    // A failed write must not block the ones after it
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  private filePath(month: string): string {
+    return path.join(this.directory, `usage-${month}.json`);
+  }
+}
+
+/**
+ * Months (YYYY-MM) from `from` to `to`, inclusive
+ */
+function monthsBetween(from: string, to: string): string[] {
+  const months: string[] = [];
+  let [year, month] = from.split('-').map(Number);
+  const [toYear, toMonth] = to.split('-').map(Number);
+
+  while (year < toYear || (year === toYear && month <= toMonth)) {
+    months.push(`${year}-${String(month).padStart(2, '0')}`);
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return months;
+}
+
+/**
+ * Create the usage store selected by USAGE_STORE
+ */
+export function createUsageStore(config: Config): UsageStore {
+  switch (config.usageStore) {
+    case 'memory':
+      return new MemoryUsageStore();
+
+    case 'file':
+      console.log(`Using file usage store at ${path.resolve(config.usageStoreDir)}`);
+      return new FileUsageStore(config.usageStoreDir);
+
+    default:
+      throw new Error(`Unsupported usage store: ${config.usageStore}`);
+  }
+}
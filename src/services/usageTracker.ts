@@ -0,0 +1,169 @@
+import { PriceTable } from './pricing.js';
+import { UsageStore } from './usageStore.js';
+import { TurnUsage, UsageQuery, UsageRecord, UsageTotals } from '../types/index.js';
+
+// Owner recorded for turns made without Salesforce auth
+export const ANONYMOUS_OWNER = 'anonymous';
+
+// Longest range a usage query may cover, in calendar months
+export const MAX_USAGE_QUERY_MONTHS = 24;
+
+/**
+ * Raised when a usage query has an invalid or too long date range
+ */
+export class InvalidUsageQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidUsageQueryError';
+  }
+}
+
+/**
+ * One chat turn's usage, attributed to its user and model
+ */
+export interface UsageEvent {
+  userId?: string;
+  organizationId?: string;
+  provider: string;
+  model: string;
+  usage: Omit<TurnUsage, 'cost'>;
+  // Chat requests the event counts as (default 1); 0 for calls made for another request, such as history summaries
+  requests?: number;
+}
+
+/**
+ * Usage matching a query: totals plus the stored daily records behind them
+ */
+export interface UsageReport {
+  from: string;
+  to: string;
+  totals: UsageTotals;
+  records: UsageRecord[];
+}
+
+export function emptyUsageTotals(): UsageTotals {
+  return {
+    requests: 0,
+    llmCalls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cachedInputTokens: 0,
+    cacheWriteTokens: 0,
+    cost: 0,
+    unpricedRequests: 0,
+  };
+}
+
+/**
+ * Add one turn to running totals (e.g. a session's)
+ * @param requests - Chat requests the usage counts as; 0 for a history summary
+ */
+export function addTurnUsage(totals: UsageTotals, usage: TurnUsage, requests: number = 1): UsageTotals {
+  return {
+    requests: totals.requests + requests,
+    llmCalls: totals.llmCalls + usage.llmCalls,
+    inputTokens: totals.inputTokens + usage.inputTokens,
+    outputTokens: totals.outputTokens + usage.outputTokens,
+    cachedInputTokens: totals.cachedInputTokens + usage.cachedInputTokens,
+    // Sessions stored before cache writes were counted have no total yet
+    cacheWriteTokens: (totals.cacheWriteTokens ?? 0) + usage.cacheWriteTokens,
+    cost: roundCost(totals.cost + (usage.cost ?? 0)),
+    unpricedRequests: totals.unpricedRequests + (usage.cost === undefined ? requests : 0),
+  };
+}
+
+/**
+ * UTC day (YYYY-MM-DD) of a timestamp
+ */
+export function toUsageDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Prices chat turns and keeps per user, org and model totals in a usage store
+ */
+export class UsageTracker {
+  constructor(private store: UsageStore, private priceTable: PriceTable) {}
+
+  /**
+   * Price a turn and add it to the store
+   * A failing store is logged rather than thrown; the answer has already been produced.
+   */
+  async record(event: UsageEvent): Promise<TurnUsage> {
+    const cost = this.priceTable.getCost(event.model, event.usage);
+    const usage: TurnUsage = { ...event.usage, ...(cost !== undefined ? { cost } : {}) };
+
+    try {
+      await this.store.add({
+        day: toUsageDay(Date.now()),
+        userId: event.userId || ANONYMOUS_OWNER,
+        organizationId: event.organizationId || ANONYMOUS_OWNER,
+        provider: event.provider,
+        model: event.model,
+        ...addTurnUsage(emptyUsageTotals(), usage, event.requests ?? 1),
+      });
+    } catch (error) {
+      console.error('[Usage] Failed to record usage:', error);
+    }
+
+    return usage;
+  }
+
+  /**
+   * Usage for a user and/or org between two days; defaults to the current month
+   * @throws InvalidUsageQueryError when a day does not exist, from is after to, or the
+   *         range spans more than MAX_USAGE_QUERY_MONTHS months
+   */
+  async query(query: UsageQuery): Promise<UsageReport> {
+    const today = toUsageDay(Date.now());
+    const from = query.from || `${today.slice(0, 7)}-01`;
+    const to = query.to || today;
+
+    for (const day of [from, to]) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(day) || toUsageDay(Date.parse(`${day}T00:00:00Z`) || 0) !== day) {
+        throw new InvalidUsageQueryError(`${day} is not a valid date (YYYY-MM-DD)`);
+      }
+    }
+    if (from > to) {
+      throw new InvalidUsageQueryError(`from (${from}) must not be after to (${to})`);
+    }
+    const months = monthIndex(to) - monthIndex(from) + 1;
+    if (months > MAX_USAGE_QUERY_MONTHS) {
+      throw new InvalidUsageQueryError(`The range spans ${months} months; at most ${MAX_USAGE_QUERY_MONTHS} can be queried at once`);
+    }
+
+    const records = (await this.store.list(from, to))
+      .filter(record => !query.userId || record.userId === query.userId)
+      .filter(record => !query.organizationId || record.organizationId === query.organizationId)
+      .sort((a, b) => a.day.localeCompare(b.day) || a.model.localeCompare(b.model));
+
+    const totals = records.reduce<UsageTotals>((sum, record) => ({
+      requests: sum.requests + record.requests,
+      llmCalls: sum.llmCalls + record.llmCalls,
+      inputTokens: sum.inputTokens + record.inputTokens,
+      outputTokens: sum.outputTokens + record.outputTokens,
+      cachedInputTokens: sum.cachedInputTokens + record.cachedInputTokens,
+      cacheWriteTokens: sum.cacheWriteTokens + record.cacheWriteTokens,
+      cost: roundCost(sum.cost + record.cost),
+      unpricedRequests: sum.unpricedRequests + record.unpricedRequests,
+    }), emptyUsageTotals());
+
+    return { from, to, totals, records };
+  }
+
+  close(): Promise<void> {
+    return this.store.close();
+  }
+}
+
+/**
+ * Months since year 0 of a YYYY-MM-DD day
+ */
+function monthIndex(day: string): number {
+  const [year, month] = day.split('-').map(Number);
+  return year * 12 + month - 1;
+}
+
+function roundCost(cost: number): number {
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
@@ -9,6 +9,8 @@ export interface ChatMessage {
       name: string;
       arguments: string;
     };
+    // Opaque signature Gemini returned with the call; stored so any instance can replay it
+    thoughtSignature?: string;
   }>;
   tool_call_id?: string;
   name?: string;
@@ -20,6 +22,9 @@ export interface SalesforceUserInfo {
   organizationId: string;
   email?: string;
   displayName?: string;
+  // Salesforce locale (e.g. en_US) and IANA time zone of the user
+  locale?: string;
+  timeZone?: string;
 }
 
 export interface SalesforceAuth {
@@ -31,11 +36,54 @@ export interface SalesforceAuth {
 
 export interface ChatSession {
   sessionId: string;
+  // Salesforce user and org that created the session (unset when auth is disabled)
+  userId?: string;
+  organizationId?: string;
   messages: ChatMessage[];
   createdAt: number;
   lastActivityAt: number;
   salesforceAuth?: SalesforceAuth;
   recordContext?: RecordContext;
+  // Record the conversation was started on (recordContext follows the latest message)
+  startedOnRecord?: RecordReference;
+  // User-chosen title; a title is derived from the first message otherwise
+  title?: string;
+  pinned?: boolean;
+  pendingAction?: PendingAction;
+  // Running summary of older turns that no longer fit the model's context window
+  summary?: ConversationSummary;
+  // LLM usage and cost of every turn in this session
+  usage?: UsageTotals;
+}
+
+export interface ConversationSummary {
+  content: string;
+  // Number of leading session messages covered by the summary
+  summarizedCount: number;
+  updatedAt: number;
+}
+
+export interface RecordReference {
+  objectApiName: string;
+  recordId: string;
+}
+
+/**
+ * Session metadata returned by the session listing
+ */
+export interface SessionSummary {
+  sessionId: string;
+  title: string;
+  pinned: boolean;
+  messageCount: number;
+  createdAt: number;
+  lastActivityAt: number;
+  startedOnRecord?: RecordReference;
+}
+
+export interface SessionMetadataUpdate {
+  title?: string;
+  pinned?: boolean;
 }
 
 export interface RecordContext {
@@ -51,14 +99,173 @@ export interface ChatRequest {
   record?: any;
   objectApiName?: string;
   recordId?: string;
+  // Optional per-request model choice, checked against AI_MODEL_ALLOWLIST
+  provider?: string;
+  model?: string;
+  // Tool rounds allowed for this message, up to AGENT_MAX_ITERATIONS_LIMIT
+  maxIterations?: number;
+}
+
+export type ModelSelection = Pick<ChatRequest, 'provider' | 'model'>;
+
+/**
+ * Per-request settings passed to the AI services
+ */
+export type ChatOptions = Pick<ChatRequest, 'maxIterations'> & {
+  // Epoch ms after which failed calls are no longer retried; shared by every
+  // provider tried and every model call made for the same HTTP request
+  retryDeadline?: number;
+};
+
+/**
+ * A provider/model pair requests may choose, as listed by /health
+ */
+export interface AvailableModel {
+  provider: string;
+  model: string;
+  // 'chain' entries come from AI_PROVIDER_CHAIN/AI_PROVIDER, the rest from AI_MODEL_ALLOWLIST (may contain `*`)
+  source: 'chain' | 'allowlist';
+  default: boolean;
+  initialized: boolean;
 }
 
 export interface ChatResponse {
   sessionId: string;
   message: string;
   timestamp: number;
+  // Provider and model that produced this answer (may differ from the primary after failover)
+  provider: string;
+  model: string;
+  toolCalls: ToolCallTrace[];
+  // Tokens and cost of every LLM call made for this message
+  usage: TurnUsage;
+  // The tool-round limit was reached; ask to continue for the rest
+  partial?: boolean;
+  pendingAction?: PendingActionInfo;
+}
+
+/**
+ * Tokens reported by the provider for one or more LLM calls
+ * inputTokens includes cachedInputTokens and cacheWriteTokens.
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  // Input read from the provider's prompt cache
+  cachedInputTokens: number;
+  // Input written to the prompt cache; only providers that bill cache writes report it
+  cacheWriteTokens: number;
+}
+
+/**
+ * LLM usage of one chat turn
+ */
+export interface TurnUsage extends TokenUsage {
+  llmCalls: number;
+  // In USD; unset when the model has no entry in the price table
+  cost?: number;
 }
 
+/**
+ * LLM usage summed over several turns
+ */
+export interface UsageTotals extends TokenUsage {
+  requests: number;
+  llmCalls: number;
+  // In USD, for the requests whose model has a price
+  cost: number;
+  // Requests whose model has no price, so their cost is not included
+  unpricedRequests: number;
+}
+
+/**
+ * Record of a single tool call made while answering a message
+ * Arguments are sanitized and the result is truncated before leaving the server.
+ */
+export interface ToolCallTrace {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  status: 'success' | 'error' | 'rejected';
+  startedAt: number;
+  durationMs: number;
+  resultPreview?: string;
+  error?: string;
+}
+
+/**
+ * A tool call requested by the model while the agentic loop is paused
+ */
+export interface PendingToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  requiresApproval: boolean;
+}
+
+/**
+ * Tool calls waiting for the user to approve or reject them
+ * `resumeState` is the provider-specific conversation needed to continue the loop
+ * and is never sent to the client.
+ */
+export interface PendingAction {
+  actionId: string;
+  toolCalls: PendingToolCall[];
+  createdAt: number;
+  // Provider and model that paused, so the loop resumes on the same one
+  provider: string;
+  model: string;
+  resumeState: unknown;
+}
+
+export type PendingActionInfo = Omit<PendingAction, 'resumeState' | 'provider' | 'model'>;
+
+export interface ToolApprovalDecision {
+  approved: boolean;
+  reason?: string;
+}
+
+/**
+ * Session history fitted into the model's context window
+ */
+export interface ChatHistory {
+  // Messages to pass to chat()/chatStream()
+  messages: ChatMessage[];
+  provider: string;
+  model: string;
+  // Tokens of the calls that folded older turns into the summary; priced by the usage tracker
+  usage: Omit<TurnUsage, 'cost'>;
+}
+
+/**
+ * Outcome of a chat turn returned by the AI services
+ */
+export interface ChatResult {
+  message: string;
+  provider: string;
+  model: string;
+  toolCalls: ToolCallTrace[];
+  // Messages to append to the session history: tool calls, tool results and the final reply
+  messages: ChatMessage[];
+  // Tokens of every LLM call in the turn; priced by the usage tracker
+  usage: Omit<TurnUsage, 'cost'>;
+  // Set when the tool-round limit stopped the loop and the message summarizes the progress so far
+  partial?: boolean;
+  pendingAction?: PendingAction;
+}
+
+/**
+ * Events emitted while a chat turn is streamed to the client
+ */
+export type ChatStreamEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'tool_start'; toolCallId: string; name: string }
+  | { type: 'tool_end'; toolCallId: string; name: string; isError: boolean; durationMs: number }
+  | { type: 'message'; response: ChatResponse }
+  | { type: 'error'; error: string; details?: string };
+
+export type ChatStreamHandler = (event: ChatStreamEvent) => void;
+
 export interface ToolCall {
   name: string;
   arguments: Record<string, unknown>;
@@ -75,3 +282,54 @@ export interface RateLimitInfo {
   requests: number[];
   lastCleanup: number;
 }
+
+/**
+ * One configured quota and how much of it is left
+ * Tokens count input plus output tokens of every LLM call.
+ */
+export interface QuotaAllowance {
+  scope: 'user' | 'organization';
+  period: 'day' | 'month';
+  metric: 'tokens' | 'requests';
+  limit: number;
+  used: number;
+  remaining: number;
+  // Epoch ms of the next UTC day or month, when the count starts over
+  resetsAt: number;
+}
+
+/**
+ * Health of one provider in the failover chain, as reported by /health
+ */
+export interface ProviderStatus {
+  provider: string;
+  model: string;
+  status: 'available' | 'cooling_down';
+  consecutiveFailures: number;
+  lastError?: string;
+  lastFailureAt?: number;
+  lastSuccessAt?: number;
+  cooldownUntil?: number;
+}
+
+/**
+ * Usage of one Salesforce user with one provider/model on one day, as stored
+ */
+export interface UsageRecord extends UsageTotals {
+  // UTC day, YYYY-MM-DD
+  day: string;
+  userId: string;
+  organizationId: string;
+  provider: string;
+  model: string;
+}
+
+/**
+ * Filter for usage queries; days are inclusive UTC dates (YYYY-MM-DD)
+ */
+export interface UsageQuery {
+  userId?: string;
+  organizationId?: string;
+  from?: string;
+  to?: string;
+}
@@ -0,0 +1,239 @@
+import { after, before, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { fileURLToPath } from 'url';
+import express from 'express';
+import { loadConfig } from '../src/config/config.js';
+import { MCPClientService } from '../src/services/mcpClient.js';
+import { AIServiceFactory } from '../src/services/AIServiceFactory.js';
+import { SessionManager } from '../src/services/sessionManager.js';
+import { MemorySessionStore } from '../src/services/sessionStore.js';
+import { SalesforceAuthService } from '../src/services/salesforceAuth.js';
+import { UsageTracker } from '../src/services/usageTracker.js';
+import { MemoryUsageStore } from '../src/services/usageStore.js';
+import { PriceTable } from '../src/services/pricing.js';
+import { createQuotaService } from '../src/services/quotaService.js';
+import { createChatRouter } from '../src/routes/chat.js';
+
+/**
+ * Chat routes driven by the mock provider in script mode (test/fixtures/mock-script.json):
+ * an update that needs approval, a query, then the final answer.
+ * Tools run against a minimal MCP server that records every call.
+ */
+
+const toolCalls: Array<{ name: string; arguments: Record<string, unknown> }> = [];
+// While set, tool calls are held until it resolves
+let toolGate: Promise<void> | undefined;
+const servers: Server[] = [];
+let sessionManager: SessionManager;
+let salesforceAuthService: SalesforceAuthService;
+let mcpClient: MCPClientService;
+let baseUrl: string;
+
+function listen(app: express.Express): Promise<string> {
+  return new Promise(resolve => {
+    const server = app.listen(0, () => resolve(`http://localhost:${(server.address() as AddressInfo).port}`));
+    servers.push(server);
+  });
+}
+
+/**
+ * JSON-RPC over plain JSON responses, the simplest Streamable HTTP server
+ */
+function createMcpServer(): express.Express {
+  const app = express();
+  app.use(express.json());
+  app.post('/mcp', async (req, res) => {
+    const { id, method, params } = req.body;
+    if (id === undefined) {
+      return res.status(202).end();
+    }
+
+    switch (method) {
+      case 'initialize':
+        return res.json({ jsonrpc: '2.0', id, result: { protocolVersion: '2025-06-18', capabilities: { tools: {} } } });
+      case 'tools/list':
+        return res.json({
+          jsonrpc: '2.0',
+          id,
+          result: {
+            tools: ['salesforce_query_records', 'salesforce_dml_records'].map(name => ({
+              name,
+              description: name.replace(/_/g, ' '),
+              inputSchema: { type: 'object', properties: { objectName: { type: 'string' } } },
+            })),
+          },
+        });
+      case 'tools/call':
+        toolCalls.push(params);
+        await toolGate;
+        return res.json({
+          jsonrpc: '2.0',
+          id,
+          result: { content: [{ type: 'text', text: JSON.stringify({ success: true, tool: params.name }) }] },
+        });
+      default:
+        return res.json({ jsonrpc: '2.0', id, error: { code: -32601, message: `Unknown method ${method}` } });
+    }
+  });
+  return app;
+}
+
+async function post(path: string, body: unknown): Promise<{ status: number; body: any }> {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+async function get(path: string): Promise<{ status: number; body: any }> {
+  const response = await fetch(`${baseUrl}${path}`);
+  return { status: response.status, body: await response.json() };
+}
+
+before(async () => {
+  // The server logs every request and tool call in detail
+  mock.method(console, 'log', () => {});
+
+  Object.assign(process.env, {
+    MCP_SERVER_URL: `${await listen(createMcpServer())}/mcp`,
+    AI_PROVIDER: 'mock',
+    MOCK_MODE: 'script',
+    MOCK_SCRIPT_FILE: fileURLToPath(new URL('./fixtures/mock-script.json', import.meta.url)),
+    REQUIRE_SALESFORCE_AUTH: 'false',
+    REQUIRE_TOOL_APPROVAL: 'true',
+    AGENT_MAX_ITERATIONS: '10',
+  });
+
+  const config = loadConfig();
+  mcpClient = new MCPClientService(config);
+  await mcpClient.connect();
+
+  const usageTracker = new UsageTracker(new MemoryUsageStore(), new PriceTable());
+  sessionManager = new SessionManager(config.sessionTimeoutMs, new MemorySessionStore());
+  salesforceAuthService = new SalesforceAuthService(config.salesforceTokenValidationTTL);
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/chat', createChatRouter(
+    sessionManager,
+    new AIServiceFactory(config, mcpClient),
+    config,
+    salesforceAuthService,
+    usageTracker,
+    createQuotaService(config, usageTracker)
+  ));
+  baseUrl = await listen(app);
+});
+
+after(async () => {
+  await sessionManager.destroy();
+  salesforceAuthService.destroy();
+  await mcpClient.disconnect();
+  for (const server of servers) {
+    server.close();
+  }
+});
+
+test('an update waits for approval and the loop resumes once approved', async () => {
+  toolCalls.length = 0;
+
+  const paused = await post('/api/chat', { message: 'Rate the account Hot' });
+  assert.equal(paused.status, 200);
+  assert.ok(paused.body.pendingAction, 'expected a pending action');
+  assert.deepEqual(paused.body.pendingAction.toolCalls.map((call: any) => call.name), ['salesforce_dml_records']);
+  assert.equal(toolCalls.length, 0, 'no tool may run before approval');
+
+  const { sessionId } = paused.body;
+  const blocked = await post('/api/chat', { message: 'Anything else?', sessionId });
+  assert.equal(blocked.status, 409);
+
+  const resumed = await post(`/api/chat/${sessionId}/actions/${paused.body.pendingAction.actionId}`, { approved: true });
+  assert.equal(resumed.status, 200);
+  assert.equal(resumed.body.message, 'The account is now rated Hot.');
+  assert.equal(resumed.body.pendingAction, undefined);
+  assert.equal(resumed.body.partial, undefined);
+  assert.deepEqual(toolCalls.map(call => call.name), ['salesforce_dml_records', 'salesforce_query_records']);
+
+  const history = await get(`/api/chat/${sessionId}`);
+  assert.equal(history.body.pendingAction, undefined);
+  assert.deepEqual(
+    history.body.messages.map((message: any) => message.role),
+    ['user', 'assistant', 'tool', 'assistant', 'tool', 'assistant']
+  );
+});
+
+test('a new message is rejected while an approved action is still running', async () => {
+  toolCalls.length = 0;
+
+  const paused = await post('/api/chat', { message: 'Rate the account Hot' });
+  const { sessionId, pendingAction } = paused.body;
+
+  let releaseTools!: () => void;
+  toolGate = new Promise(resolve => { releaseTools = resolve; });
+  try {
+    const resuming = post(`/api/chat/${sessionId}/actions/${pendingAction.actionId}`, { approved: true });
+    while (toolCalls.length === 0) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+
+    // The pending action is already cleared, but its results are not stored yet
+    const blocked = await post('/api/chat', { message: 'Anything else?', sessionId });
+    assert.equal(blocked.status, 409);
+
+    releaseTools();
+    assert.equal((await resuming).status, 200);
+  } finally {
+    toolGate = undefined;
+    releaseTools();
+  }
+
+  const history = await get(`/api/chat/${sessionId}`);
+  assert.deepEqual(
+    history.body.messages.map((message: any) => message.role),
+    ['user', 'assistant', 'tool', 'assistant', 'tool', 'assistant']
+  );
+});
+
+test('a rejected update is not run', async () => {
+  toolCalls.length = 0;
+
+  const paused = await post('/api/chat', { message: 'Rate the account Hot' });
+  const { sessionId, pendingAction } = paused.body;
+
+  const resumed = await post(`/api/chat/${sessionId}/actions/${pendingAction.actionId}`, {
+    approved: false,
+    reason: 'Not this account',
+  });
+  assert.equal(resumed.status, 200);
+  assert.equal(resumed.body.toolCalls[0].status, 'rejected');
+  assert.ok(!toolCalls.some(call => call.name === 'salesforce_dml_records'), 'a rejected tool must not run');
+});
+
+test('reaching maxIterations ends the turn with a partial summary', async () => {
+  toolCalls.length = 0;
+
+  const paused = await post('/api/chat', { message: 'Rate the account Hot', maxIterations: 1 });
+  const { sessionId, pendingAction } = paused.body;
+
+  // The approved update used the only tool round, so the query of the next step is not run
+  const resumed = await post(`/api/chat/${sessionId}/actions/${pendingAction.actionId}`, { approved: true });
+  assert.equal(resumed.status, 200);
+  assert.equal(resumed.body.partial, true);
+  assert.equal(resumed.body.pendingAction, undefined);
+  assert.deepEqual(toolCalls.map(call => call.name), ['salesforce_dml_records']);
+  assert.equal(resumed.body.usage.llmCalls, 2);
+});
+
+test('maxIterations outside the allowed range is rejected', async () => {
+  const response = await post('/api/chat', { message: 'Rate the account Hot', maxIterations: 0 });
+  assert.equal(response.status, 400);
+});
+
+test('a session ID shadowed by another route is rejected', async () => {
+  const response = await post('/api/chat', { message: 'Rate the account Hot', sessionId: 'Usage' });
+  assert.equal(response.status, 400);
+});
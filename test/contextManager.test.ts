@@ -0,0 +1,150 @@
+import { before, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ContextManager } from '../src/services/contextManager.js';
+import { ChatMessage } from '../src/types/index.js';
+
+const MODEL = 'gpt-4o';
+// 1000-token window, so 600 tokens of history
+const OPTIONS = { maxContextTokens: 1000, keepRecentTurns: 1, toolResultMaxTokens: 10_000 };
+
+/**
+ * A user message answered after two tool rounds, the second with two parallel calls
+ */
+function turn(index: number, resultText = 'r'.repeat(200)): ChatMessage[] {
+  const call = (id: string) => ({ id, type: 'function', function: { name: 'salesforce_query_records', arguments: '{}' } });
+  const result = (id: string): ChatMessage => ({ role: 'tool', content: resultText, tool_call_id: id, name: 'salesforce_query_records' });
+  return [
+    { role: 'user', content: `Question ${index} ${'q'.repeat(200)}` },
+    { role: 'assistant', content: '', tool_calls: [call(`${index}a`)] },
+    result(`${index}a`),
+    { role: 'assistant', content: '', tool_calls: [call(`${index}b`), call(`${index}c`)] },
+    result(`${index}b`),
+    result(`${index}c`),
+    { role: 'assistant', content: `Answer ${index}` },
+  ];
+}
+
+function history(turns: number): ChatMessage[] {
+  return Array.from({ length: turns }, (_, i) => turn(i)).flat();
+}
+
+/**
+ * Every tool call has its result in the same list and every result its call, in that order
+ */
+function assertExchangesComplete(messages: ChatMessage[]): void {
+  const called = new Set<string>();
+  const answered = new Set<string>();
+  for (const message of messages) {
+    for (const call of message.tool_calls ?? []) {
+      called.add(call.id);
+    }
+    if (message.role === 'tool') {
+      assert.ok(called.has(message.tool_call_id!), `result ${message.tool_call_id} without its call`);
+      answered.add(message.tool_call_id!);
+    }
+  }
+  assert.deepEqual([...called].filter(id => !answered.has(id)), [], 'calls without their results');
+}
+
+before(() => {
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'warn', () => {});
+});
+
+test('a history within the budget is sent unchanged', async () => {
+  const manager = new ContextManager(OPTIONS);
+  const messages = history(1);
+  const summarize = mock.fn(async () => 'summary');
+
+  const prepared = await manager.prepare(messages, undefined, MODEL, summarize);
+  assert.deepEqual(prepared.messages, messages);
+  assert.equal(prepared.summary, undefined);
+  assert.equal(summarize.mock.callCount(), 0);
+});
+
+test('the oldest whole turns are folded and tool exchanges are never split', async () => {
+  const manager = new ContextManager(OPTIONS);
+  const messages = history(6);
+  let folded: ChatMessage[] = [];
+
+  const prepared = await manager.prepare(messages, undefined, MODEL, async (previous, turns) => {
+    assert.equal(previous, undefined);
+    folded = turns;
+    return 'Earlier the user asked about accounts.';
+  });
+
+  const [summaryMessage, acknowledgement, ...kept] = prepared.messages;
+  assert.match(summaryMessage.content, /Earlier the user asked about accounts\./);
+  assert.equal(acknowledgement.role, 'assistant');
+
+  // Folded and kept messages split the history at a user message
+  assert.deepEqual([...folded, ...kept], messages);
+  assert.equal(kept[0].role, 'user');
+  assertExchangesComplete(folded);
+  assertExchangesComplete(kept);
+  assert.equal(prepared.summary?.summarizedCount, folded.length);
+});
+
+test('the most recent turns stay verbatim even over the budget', async () => {
+  const manager = new ContextManager({ ...OPTIONS, maxContextTokens: 100, keepRecentTurns: 2 });
+  const messages = history(4);
+
+  const prepared = await manager.prepare(messages, undefined, MODEL, async () => 'summary');
+  assert.deepEqual(prepared.messages.slice(2), messages.slice(-14));
+  assert.equal(prepared.summary?.summarizedCount, 14);
+});
+
+test('the stored summary is extended from where it ends', async () => {
+  const manager = new ContextManager(OPTIONS);
+  const messages = history(6);
+  const first = await manager.prepare(messages, undefined, MODEL, async () => 'first summary');
+
+  const longer = [...messages, ...turn(6), ...turn(7)];
+  let folded: ChatMessage[] = [];
+  const second = await manager.prepare(longer, first.summary, MODEL, async (previous, turns) => {
+    assert.equal(previous, 'first summary');
+    folded = turns;
+    return 'second summary';
+  });
+
+  assert.deepEqual(folded, longer.slice(first.summary!.summarizedCount, second.summary!.summarizedCount));
+  assert.equal(folded[0].role, 'user');
+  assertExchangesComplete(folded);
+  assertExchangesComplete(second.messages);
+});
+
+test('large tool results are trimmed before anything is summarized', async () => {
+  const manager = new ContextManager({ ...OPTIONS, maxContextTokens: 4000, toolResultMaxTokens: 20 });
+  const messages = [...turn(0, 'x'.repeat(5000)), ...turn(1)];
+  const summarize = mock.fn(async () => 'summary');
+
+  const prepared = await manager.prepare(messages, undefined, MODEL, summarize);
+  assert.equal(summarize.mock.callCount(), 0);
+  assert.equal(prepared.messages.length, messages.length);
+  assert.match(prepared.messages[2].content, /tool result trimmed/);
+  assert.equal(prepared.messages[2].tool_call_id, '0a');
+});
+
+test('a failed summary drops the older turns for this request only', async () => {
+  const manager = new ContextManager(OPTIONS);
+  const messages = history(6);
+
+  const prepared = await manager.prepare(messages, undefined, MODEL, async () => {
+    throw new Error('model unavailable');
+  });
+
+  assert.equal(prepared.summary, undefined);
+  assert.equal(prepared.messages[0].role, 'user');
+  assert.ok(prepared.messages.length < messages.length);
+  assertExchangesComplete(prepared.messages);
+});
+
+test('a summary covering more messages than the history is ignored', async () => {
+  const manager = new ContextManager(OPTIONS);
+  const messages = history(1);
+  const summary = { content: 'stale', summarizedCount: 50, updatedAt: Date.now() };
+
+  const prepared = await manager.prepare(messages, summary, MODEL, async () => 'summary');
+  assert.deepEqual(prepared.messages, messages);
+  assert.equal(prepared.summary, undefined);
+});
@@ -0,0 +1,145 @@
+import { after, before, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { loadConfig } from '../src/config/config.js';
+import { MCPClientService } from '../src/services/mcpClient.js';
+import { RetryPolicy, getRetryStats } from '../src/services/retryPolicy.js';
+import { ToolApprovalPolicy } from '../src/services/toolApprovalPolicy.js';
+
+const OPTIONS = { maxRetries: 3, baseDelayMs: 1, maxDelayMs: 5 };
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`HTTP ${status}`), { status, headers });
+}
+
+/**
+ * An operation that fails with the given errors, then succeeds
+ */
+function failing(...errors: unknown[]) {
+  const fn = async () => {
+    fn.attempts++;
+    if (fn.attempts <= errors.length) {
+      throw errors[fn.attempts - 1];
+    }
+    return 'ok';
+  };
+  fn.attempts = 0;
+  return fn;
+}
+
+let server: Server;
+let mcpClient: MCPClientService;
+let approvalPolicy: ToolApprovalPolicy;
+let toolCallAttempts = 0;
+
+before(async () => {
+  // Every failed attempt is logged
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'warn', () => {});
+  mock.method(console, 'error', () => {});
+
+  // An MCP server whose tool calls always fail with 503 Service Unavailable
+  const app = express();
+  app.use(express.json());
+  app.post('/mcp', (req, res) => {
+    const { id, method } = req.body;
+    if (id === undefined) {
+      return res.status(202).end();
+    }
+    if (method === 'tools/call') {
+      toolCallAttempts++;
+      return res.status(503).json({ error: 'Service Unavailable' });
+    }
+    return res.json({ jsonrpc: '2.0', id, result: { protocolVersion: '2025-06-18', capabilities: { tools: {} } } });
+  });
+  const url = await new Promise<string>(resolve => {
+    server = app.listen(0, () => resolve(`http://localhost:${(server.address() as AddressInfo).port}/mcp`));
+  });
+
+  Object.assign(process.env, {
+    MCP_SERVER_URL: url,
+    AI_PROVIDER: 'mock',
+    RETRY_MAX_RETRIES: '2',
+    RETRY_BASE_DELAY_MS: '1',
+    RETRY_MAX_DELAY_MS: '5',
+  });
+  const config = loadConfig();
+  mcpClient = new MCPClientService(config);
+  approvalPolicy = new ToolApprovalPolicy(config.requireToolApproval, config.mutatingTools);
+  await mcpClient.connect();
+});
+
+after(async () => {
+  await mcpClient.disconnect();
+  server.close();
+});
+
+test('transient failures are retried until the call succeeds', async () => {
+  const fn = failing(httpError(503), Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }), httpError(429));
+
+  assert.equal(await new RetryPolicy(OPTIONS).execute('test:recovers', fn), 'ok');
+  assert.equal(fn.attempts, 4);
+  assert.deepEqual(getRetryStats()['test:recovers'], { calls: 1, retries: 3, recovered: 1, exhausted: 0 });
+});
+
+test('other errors are not retried', async () => {
+  const fn = failing(httpError(400));
+
+  await assert.rejects(new RetryPolicy(OPTIONS).execute('test:client-error', fn), /HTTP 400/);
+  assert.equal(fn.attempts, 1);
+});
+
+test('retries stop after maxRetries', async () => {
+  const fn = failing(...Array.from({ length: 10 }, () => httpError(502)));
+
+  await assert.rejects(new RetryPolicy(OPTIONS).execute('test:exhausted', fn), /HTTP 502/);
+  assert.equal(fn.attempts, OPTIONS.maxRetries + 1);
+  assert.equal(getRetryStats()['test:exhausted'].exhausted, 1);
+});
+
+test('no retry is started when its delay would end past the deadline', async () => {
+  const policy = new RetryPolicy({ ...OPTIONS, maxDelayMs: 60_000 });
+
+  // The server asks for 30 seconds, but only one second of the budget is left
+  const throttled = failing(httpError(429, { 'retry-after': '30' }));
+  const startedAt = Date.now();
+  await assert.rejects(policy.execute('test:deadline', throttled, { deadline: Date.now() + 1000 }), /HTTP 429/);
+  assert.equal(throttled.attempts, 1);
+  assert.ok(Date.now() - startedAt < 1000);
+
+  // A budget used up earlier in the request allows no retry at all
+  const spent = failing(httpError(503));
+  await assert.rejects(policy.execute('test:deadline', spent, { deadline: Date.now() - 1 }), /HTTP 503/);
+  assert.equal(spent.attempts, 1);
+});
+
+test('Retry-After sets the delay', async () => {
+  const fn = failing(httpError(503, { 'retry-after-ms': '50' }));
+  const startedAt = Date.now();
+
+  assert.equal(await new RetryPolicy(OPTIONS).execute('test:retry-after', fn), 'ok');
+  assert.ok(Date.now() - startedAt >= 50);
+});
+
+test('canRetry can veto a retry', async () => {
+  const fn = failing(httpError(503));
+
+  await assert.rejects(new RetryPolicy(OPTIONS).execute('test:veto', fn, { canRetry: () => false }), /HTTP 503/);
+  assert.equal(fn.attempts, 1);
+});
+
+test('a tool that modifies data is not repeated once the server may have run it', async () => {
+  // Tools are called the way BaseAIService.executeTool calls them
+  const callTool = (name: string) =>
+    mcpClient.callTool(name, { objectName: 'Account' }, undefined, { idempotent: !approvalPolicy.isMutating(name) });
+
+  toolCallAttempts = 0;
+  await assert.rejects(callTool('salesforce_dml_records'));
+  assert.equal(toolCallAttempts, 1);
+
+  toolCallAttempts = 0;
+  await assert.rejects(callTool('salesforce_query_records'));
+  assert.equal(toolCallAttempts, 3);
+});
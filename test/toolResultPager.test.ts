@@ -0,0 +1,111 @@
+import { before, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ToolResultPager } from '../src/services/toolResultPager.js';
+
+const OPTIONS = { maxChars: 2000, limits: {}, previewRows: 5, ttlMs: 60_000 };
+
+function accountQueryResult(count: number): string {
+  return JSON.stringify({
+    totalSize: count,
+    done: true,
+    records: Array.from({ length: count }, (_, i) => ({
+      attributes: { type: 'Account', url: `/services/data/v62.0/sobjects/Account/001${i}` },
+      Id: `001${i}`,
+      Name: `Account number ${i} with a longer name`,
+    })),
+  });
+}
+
+before(() => {
+  mock.method(console, 'log', () => {});
+});
+
+test('a result within the limit is returned unchanged', () => {
+  const pager = new ToolResultPager(OPTIONS);
+  const text = accountQueryResult(2);
+  assert.equal(pager.limit('salesforce_query_records', text), text);
+});
+
+test('record pages follow each other without gaps or overlap', () => {
+  const pager = new ToolResultPager(OPTIONS);
+  const preview = pager.limit('salesforce_query_records', accountQueryResult(30)) as any;
+
+  assert.equal(preview.truncated, true);
+  assert.equal(preview.totalSize, 30);
+  assert.equal(preview.totalRows, 30);
+  assert.deepEqual(preview.fields, ['Id', 'Name']);
+  assert.equal(preview.rows.length, 5);
+  assert.equal(preview.rows[0].attributes, undefined);
+  assert.equal(preview.nextOffset, 5);
+
+  const ids = preview.rows.map((row: any) => row.Id);
+  let page = preview;
+  while (page.nextOffset !== undefined) {
+    page = pager.readPage({ resultId: preview.resultId, offset: page.nextOffset, limit: 10 });
+    assert.equal(page.error, undefined);
+    assert.ok(JSON.stringify(page).length <= OPTIONS.maxChars);
+    ids.push(...page.rows.map((row: any) => row.Id));
+  }
+
+  assert.deepEqual(ids, Array.from({ length: 30 }, (_, i) => `001${i}`));
+  assert.equal(page.offset + page.rows.length, 30);
+  assert.equal(page.note, undefined);
+});
+
+test('a page never exceeds the limit, even when more rows are asked for', () => {
+  const pager = new ToolResultPager(OPTIONS);
+  const preview = pager.limit('salesforce_query_records', accountQueryResult(100)) as any;
+
+  const page = pager.readPage({ resultId: preview.resultId, offset: 5, limit: 100 }) as any;
+  assert.ok(JSON.stringify(page).length <= OPTIONS.maxChars);
+  assert.ok(page.rows.length < 95);
+  assert.equal(page.nextOffset, 5 + page.rows.length);
+});
+
+test('text pages join back into the full result', () => {
+  const pager = new ToolResultPager(OPTIONS);
+  const text = 'Lorem ipsum dolor sit amet. '.repeat(300);
+  const preview = pager.limit('salesforce_describe_object', text) as any;
+
+  assert.equal(preview.truncated, true);
+  assert.equal(preview.totalChars, text.length);
+
+  let joined = preview.text;
+  let page = preview;
+  while (page.nextOffset !== undefined) {
+    assert.equal(page.nextOffset, joined.length);
+    page = pager.readPage({ resultId: preview.resultId, offset: page.nextOffset });
+    joined += page.text;
+  }
+  assert.equal(joined, text);
+});
+
+test('a tool limit overrides the default and 0 disables truncation', () => {
+  const pager = new ToolResultPager({ ...OPTIONS, limits: { 'salesforce_describe_*': 0, salesforce_query_records: 500 } });
+  const text = accountQueryResult(30);
+
+  assert.equal(pager.getLimit('salesforce_describe_object'), 0);
+  assert.equal(pager.limit('salesforce_describe_object', text), text);
+  assert.ok(JSON.stringify(pager.limit('salesforce_query_records', accountQueryResult(4))).length <= 500);
+  assert.equal(pager.getLimit('salesforce_search_all'), OPTIONS.maxChars);
+});
+
+test('unknown, foreign and expired results and offsets past the end are errors', async () => {
+  const pager = new ToolResultPager(OPTIONS);
+  const preview = pager.limit('salesforce_query_records', accountQueryResult(30), '005A') as any;
+
+  assert.match(String(pager.readPage({ resultId: 'no-such-result' }, '005A').error), /No stored tool result/);
+  assert.match(String(pager.readPage({}, '005A').error), /No stored tool result/);
+  assert.match(String(pager.readPage({ resultId: preview.resultId, offset: 5 }, '005B').error), /No stored tool result/);
+  assert.match(String(pager.readPage({ resultId: preview.resultId, offset: 5 }).error), /No stored tool result/);
+  assert.match(String(pager.readPage({ resultId: preview.resultId, offset: 30 }, '005A').error), /past the last of the 30 records/);
+
+  // A negative or non-integer offset starts over at the first record
+  const first = pager.readPage({ resultId: preview.resultId, offset: -3 }, '005A') as any;
+  assert.equal(first.offset, 0);
+
+  const shortLived = new ToolResultPager({ ...OPTIONS, ttlMs: 1 });
+  const expiring = shortLived.limit('salesforce_query_records', accountQueryResult(30)) as any;
+  await new Promise(resolve => setTimeout(resolve, 5));
+  assert.match(String(shortLived.readPage({ resultId: expiring.resultId, offset: 5 }).error), /expired/);
+});
@@ -0,0 +1,79 @@
+import { before, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MCPTool } from '../src/services/mcpClient.js';
+import { ToolSelector } from '../src/services/toolSelector.js';
+
+function tool(name: string, description: string, parameters: Record<string, string> = {}): MCPTool {
+  return {
+    name,
+    description,
+    inputSchema: {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(parameters).map(([key, text]) => [key, { type: 'string', description: text }])),
+    },
+  };
+}
+
+// Shaped like the tools of the Salesforce MCP server
+const TOOLS: MCPTool[] = [
+  tool('salesforce_search_objects', 'Search for standard and custom objects by a partial name', { searchPattern: 'Part of the object name' }),
+  tool('salesforce_describe_object', 'Get the metadata of an object: its fields, relationships and picklist values', { objectName: 'API name of the object' }),
+  tool('salesforce_query_records', 'Query records from an object with SOQL, including relationship fields', {
+    objectName: 'Object to query',
+    whereClause: 'SOQL WHERE condition',
+  }),
+  tool('salesforce_aggregate_query', 'Run aggregate queries with GROUP BY, COUNT and SUM', { groupByFields: 'Fields to group by' }),
+  tool('salesforce_dml_records', 'Insert, update, delete or upsert records', { operation: 'insert, update, delete or upsert' }),
+  tool('salesforce_manage_field', 'Create or modify custom fields on an object', { fieldName: 'API name of the field' }),
+  tool('salesforce_search_all', 'Search text across several objects with SOSL', { searchTerm: 'Text to search for' }),
+  tool('salesforce_read_apex', 'Read Apex classes and their source code', { className: 'Name of the Apex class' }),
+  tool('salesforce_write_apex', 'Create or update Apex classes', { className: 'Name of the Apex class', body: 'Source code' }),
+  tool('salesforce_execute_anonymous', 'Execute anonymous Apex code and return the debug logs', { apexCode: 'Code to run' }),
+];
+
+const names = (tools: MCPTool[]) => tools.map(t => t.name);
+
+before(() => {
+  mock.method(console, 'log', () => {});
+});
+
+test('the best matching tool ranks first', () => {
+  assert.deepEqual(names(new ToolSelector(1, []).select(TOOLS, 'Update the Apex class AccountService')), ['salesforce_write_apex']);
+  assert.deepEqual(names(new ToolSelector(1, []).select(TOOLS, 'Which picklist values does the Rating field have?')), [
+    'salesforce_describe_object',
+  ]);
+});
+
+test('plural and camelCase words match the tool terms', () => {
+  assert.deepEqual(names(new ToolSelector(1, []).select(TOOLS, 'run aggregate queries')), ['salesforce_aggregate_query']);
+  assert.deepEqual(names(new ToolSelector(1, []).select(TOOLS, 'groupBy')), ['salesforce_aggregate_query']);
+});
+
+test('at most top K ranked tools are sent, in the server order', () => {
+  const selected = names(new ToolSelector(3, []).select(TOOLS, 'Show the source code of the Apex class AccountService'));
+
+  assert.equal(selected.length, 3);
+  assert.ok(selected.includes('salesforce_read_apex'));
+  assert.deepEqual(selected, names(TOOLS).filter(name => selected.includes(name)));
+});
+
+test('always-on tools and tools used earlier are sent on top of the top K', () => {
+  const selector = new ToolSelector(1, ['salesforce_query_*', 'SALESFORCE_DESCRIBE_OBJECT']);
+  const selected = names(selector.select(TOOLS, 'Update the Apex class AccountService', ['salesforce_dml_records']));
+
+  assert.deepEqual(selected, [
+    'salesforce_describe_object',
+    'salesforce_query_records',
+    'salesforce_dml_records',
+    'salesforce_write_apex',
+  ]);
+});
+
+test('every tool is sent when nothing matches', () => {
+  assert.deepEqual(new ToolSelector(2, []).select(TOOLS, 'hello there'), TOOLS);
+});
+
+test('selection is off when top K is 0 or not below the number of tools', () => {
+  assert.deepEqual(new ToolSelector(0, []).select(TOOLS, 'Update the Apex class AccountService'), TOOLS);
+  assert.deepEqual(new ToolSelector(TOOLS.length, []).select(TOOLS, 'Update the Apex class AccountService'), TOOLS);
+});